@@ -0,0 +1,242 @@
+/** * @license * SPDX-License-Identifier: Apache-2.0 */
+import { blobToDataUrl, dataUrlToBlob } from './gallery';
+import { detectImageMime, formatExtension } from './image';
+import { asArray, asObject } from './json';
+import { SafetyConfig, checkText } from './safety';
+import { ZipEntry, createZip, readZip } from './zip';
+
+// The shareable definition of a character agent: who it is, how it sounds,
+// its moods and pictures, which live tools it may use and its extra
+// guardrails. Specs are validated on import against the rules below, so an
+// agent made on one device behaves the same, and as safely, on another.
+
+export const AGENT_SPEC_FORMAT = 'sadiestar-agent';
+export const AGENT_SPEC_VERSION = 1;
+
+export const AGENT_TOOLS = ['setMood', 'setCharacter', 'generatePicture'] as const;
+export type AgentTool = typeof AGENT_TOOLS[number];
+const isAgentTool = (tool: unknown): tool is AgentTool => AGENT_TOOLS.some(t => t === tool);
+
+export interface AgentMood {
+  emoji: string;
+  visualDescriptor: string;
+  voiceInstruction: string;
+}
+
+export interface AgentGuardrails {
+  // Blocked in this agent's pictures, on top of the parent's blocklist
+  blockedWords: string[];
+  // Topics the agent is told to steer away from
+  avoidTopics: string[];
+}
+
+export interface AgentSpec {
+  format: typeof AGENT_SPEC_FORMAT;
+  version: number;
+  persona: {
+    name: string;
+    emoji: string;
+    visualDescriptor: string;
+    personality: string;
+    accessories: string[];
+  };
+  voice: string;
+  moods: Record<string, AgentMood>;
+  defaultMood: string;
+  // Data URLs keyed by mood name, or 'reference' for the approved look
+  avatars: Record<string, string>;
+  tools: AgentTool[];
+  guardrails: AgentGuardrails;
+}
+
+export const AGENT_LIMITS = {
+  name: 40,
+  emoji: 8,
+  text: 300,
+  accessories: 4,
+  moods: 8,
+  moodName: 20,
+  listItems: 50,
+  listItem: 40,
+  // Characters of base64, about 3 MB of image
+  avatar: 4_000_000,
+};
+
+// Personalities and moods describe a character; they may not rewrite the rules
+const OVERRIDE_PATTERN = /\b(ignore|forget|disregard|override)\b.{0,30}\b(rules?|instructions?|guidelines?|prompt)\b|\bsystem prompt\b/i;
+
+// Mood names become file names in zip bundles
+const MOOD_NAME_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N} _-]*$/u;
+
+// Avoided topics go into the live instructions, so each one must read as a
+// topic, a few plain words, and not as a sentence telling the model what to do
+const TOPIC_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N}' -]*$/u;
+const TOPIC_WORDS = 4;
+
+const AVATAR_PATTERN = /^data:image\/(png|jpeg|webp);base64,[A-Za-z0-9+/]+=*$/;
+
+export interface AgentValidation {
+  spec: AgentSpec | null;
+  errors: string[];
+}
+
+// Checks a parsed spec against the guidelines and returns a cleaned copy.
+// Any error means the spec is rejected; nothing is partially imported.
+export function validateAgentSpec(value: unknown, options: { voices: string[]; safety?: SafetyConfig }): AgentValidation {
+  const errors: string[] = [];
+  const fail = (message: string) => {
+    errors.push(message);
+    return '';
+  };
+
+  const raw = asObject(value);
+  if (raw.format !== AGENT_SPEC_FORMAT) return { spec: null, errors: ['This file is not a Sadiestar agent.'] };
+  const version = Number(raw.version);
+  if (!Number.isInteger(version) || version < 1) return { spec: null, errors: ['The agent has no valid version number.'] };
+  if (version > AGENT_SPEC_VERSION) {
+    return { spec: null, errors: [`This agent was made with a newer version of Sadiestar (format ${version}). Update the app to use it.`] };
+  }
+
+  // Blocked words name the very things to avoid, so only they skip the safety check
+  const text = (label: string, value: unknown, max: number, required = true, screen = true) => {
+    const s = typeof value === 'string' ? value.trim() : '';
+    if (!s) return required ? fail(`${label} is missing.`) : '';
+    if (s.length > max) return fail(`${label} is longer than ${max} characters.`);
+    const hit = screen && checkText(s, options.safety);
+    if (hit) return fail(`${label} isn't kid-safe${hit.term ? ` ("${hit.term}")` : ''}.`);
+    if (OVERRIDE_PATTERN.test(s)) return fail(`${label} tries to change Sadie's rules.`);
+    return s;
+  };
+  const list = (label: string, value: unknown, maxItems: number, screen = true): string[] => {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) {
+      fail(`${label} should be a list.`);
+      return [];
+    }
+    if (value.length > maxItems) fail(`${label} has more than ${maxItems} entries.`);
+    return value.slice(0, maxItems).map((v, i) => text(`${label} ${i + 1}`, v, AGENT_LIMITS.listItem, true, screen)).filter(Boolean);
+  };
+
+  const p = asObject(raw.persona);
+  const persona = {
+    name: text('Name', p.name, AGENT_LIMITS.name),
+    emoji: text('Emoji', p.emoji, AGENT_LIMITS.emoji, false) || '⭐',
+    visualDescriptor: text('Look', p.visualDescriptor, AGENT_LIMITS.text),
+    personality: text('Personality', p.personality, AGENT_LIMITS.text),
+    accessories: list('Accessory', p.accessories, AGENT_LIMITS.accessories),
+  };
+
+  const voice = typeof raw.voice === 'string' && options.voices.includes(raw.voice) ? raw.voice : fail(`Voice "${raw.voice}" doesn't exist.`);
+
+  const moods: Record<string, AgentMood> = {};
+  const moodEntries = Object.entries(asObject(raw.moods));
+  if (!moodEntries.length) fail('The agent needs at least one mood.');
+  if (moodEntries.length > AGENT_LIMITS.moods) fail(`The agent has more than ${AGENT_LIMITS.moods} moods.`);
+  for (const [name, entry] of moodEntries.slice(0, AGENT_LIMITS.moods)) {
+    const mood = asObject(entry);
+    const key = text('Mood name', name, AGENT_LIMITS.moodName);
+    if (!key) continue;
+    if (!MOOD_NAME_PATTERN.test(key)) {
+      fail(`Mood name "${key}" can only use letters, numbers and spaces.`);
+      continue;
+    }
+    moods[key] = {
+      emoji: text(`${key} emoji`, mood.emoji, AGENT_LIMITS.emoji, false) || '🙂',
+      visualDescriptor: text(`${key} look`, mood.visualDescriptor, AGENT_LIMITS.text),
+      voiceInstruction: text(`${key} voice`, mood.voiceInstruction, AGENT_LIMITS.text),
+    };
+  }
+  const isMood = (key: unknown): key is string => typeof key === 'string' && Object.prototype.hasOwnProperty.call(moods, key);
+  const defaultMood = isMood(raw.defaultMood) ? raw.defaultMood : fail(`Default mood "${raw.defaultMood}" isn't one of the moods.`);
+
+  const tools: AgentTool[] = [];
+  for (const tool of asArray(raw.tools)) {
+    if (isAgentTool(tool)) tools.push(tool);
+    else fail(`Tool "${tool}" isn't allowed.`);
+  }
+
+  const g = asObject(raw.guardrails);
+  const guardrails: AgentGuardrails = {
+    blockedWords: list('Blocked word', g.blockedWords, AGENT_LIMITS.listItems, false),
+    avoidTopics: list('Avoided topic', g.avoidTopics, AGENT_LIMITS.listItems).filter(topic => {
+      if (TOPIC_PATTERN.test(topic) && topic.split(/\s+/).length <= TOPIC_WORDS) return true;
+      fail(`Avoided topic "${topic}" should be a few plain words, like "scary movies".`);
+      return false;
+    }),
+  };
+
+  const avatars: Record<string, string> = {};
+  for (const [key, url] of Object.entries(asObject(raw.avatars))) {
+    if (key !== 'reference' && !isMood(key)) fail(`Picture "${key}" doesn't belong to a mood.`);
+    else if (typeof url !== 'string' || !AVATAR_PATTERN.test(url)) fail(`Picture "${key}" isn't a PNG, JPEG or WebP image.`);
+    else if (url.length > AGENT_LIMITS.avatar) fail(`Picture "${key}" is too big.`);
+    else avatars[key] = url;
+  }
+
+  if (errors.length) return { spec: null, errors };
+  return {
+    spec: { format: AGENT_SPEC_FORMAT, version: AGENT_SPEC_VERSION, persona, voice, moods, defaultMood, avatars, tools, guardrails },
+    errors,
+  };
+}
+
+// What the live model is told, for the given mood
+export function agentInstruction(trait: string, mood?: AgentMood, guardrails?: AgentGuardrails) {
+  const parts = [trait, mood?.voiceInstruction];
+  if (guardrails?.avoidTopics.length) {
+    const topics = guardrails.avoidTopics.map(t => `"${t}"`).join(', ');
+    parts.push(`Never talk about these topics; if asked, kindly suggest something else: ${topics}.`);
+  }
+  return parts.filter(Boolean).join(' ');
+}
+
+export function agentSafetyConfig(config: SafetyConfig, guardrails?: AgentGuardrails): SafetyConfig {
+  return guardrails?.blockedWords.length ? { ...config, blocklist: [...config.blocklist, ...guardrails.blockedWords] } : config;
+}
+
+export const agentFileName = (spec: AgentSpec) =>
+  spec.persona.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'agent';
+
+const BUNDLE_SPEC_FILE = 'agent.json';
+// Everything but the pictures is short text
+const BUNDLE_SPEC_MAX_BYTES = 1_000_000;
+// Base64 is a third bigger than the bytes it holds
+const AVATAR_MAX_BYTES = Math.floor(AGENT_LIMITS.avatar * 3 / 4);
+
+// Plain JSON embeds the pictures as data URLs; a zip keeps them as files next to agent.json
+export async function exportAgentBundle(spec: AgentSpec, format: 'json' | 'zip'): Promise<Blob> {
+  if (format === 'json') return new Blob([JSON.stringify(spec, null, 2)], { type: 'application/json' });
+  const files: ZipEntry[] = [];
+  const avatars: Record<string, string> = {};
+  for (const [key, url] of Object.entries(spec.avatars)) {
+    const blob = await dataUrlToBlob(url);
+    const path = `avatars/${key}.${formatExtension(blob.type)}`;
+    files.push({ name: path, data: new Uint8Array(await blob.arrayBuffer()) });
+    avatars[key] = path;
+  }
+  return createZip([{ name: BUNDLE_SPEC_FILE, data: JSON.stringify({ ...spec, avatars }, null, 2) }, ...files]);
+}
+
+// Reads either bundle back into a raw spec for validateAgentSpec
+export async function readAgentBundle(file: Blob): Promise<unknown> {
+  const head = new Uint8Array(await file.slice(0, 2).arrayBuffer());
+  if (head[0] !== 0x50 || head[1] !== 0x4b) return JSON.parse(await file.text());
+
+  // Only agent.json and the pictures it names are unpacked, each within its limit
+  const entries = await readZip(file);
+  const specFile = entries.find(e => e.name === BUNDLE_SPEC_FILE);
+  if (!specFile) throw new Error(`The zip has no ${BUNDLE_SPEC_FILE}`);
+  const raw = asObject(JSON.parse(new TextDecoder().decode(await specFile.read(BUNDLE_SPEC_MAX_BYTES))));
+  const avatars: Record<string, unknown> = {};
+  for (const [key, path] of Object.entries(asObject(raw.avatars))) {
+    const entry = entries.find(e => e.name === path);
+    // A missing file is left as is for the validator to report
+    if (!entry) {
+      avatars[key] = path;
+      continue;
+    }
+    const data = await entry.read(AVATAR_MAX_BYTES);
+    avatars[key] = await blobToDataUrl(new Blob([data], { type: detectImageMime(data) || 'application/octet-stream' }));
+  }
+  return { ...raw, avatars };
+}
@@ -0,0 +1,104 @@
+/** * @license * SPDX-License-Identifier: Apache-2.0 */
+import { describe, expect, it } from 'vitest';
+import { createBlob, createResampler, decode, decodeAudioData, encode } from './audio';
+
+// Enough of an AudioContext for decodeAudioData
+function fakeContext() {
+  return {
+    createBuffer: (channels: number, length: number, sampleRate: number) => {
+      const data = Array.from({ length: channels }, () => new Float32Array(length));
+      return { numberOfChannels: channels, length, sampleRate, getChannelData: (c: number) => data[c] };
+    },
+  } as unknown as BaseAudioContext;
+}
+
+describe('encode / decode', () => {
+  it('round-trips every byte value', () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    expect(decode(encode(bytes))).toEqual(bytes);
+  });
+
+  it('encodes to standard base64', () => {
+    expect(encode(new TextEncoder().encode('hi!'))).toBe('aGkh');
+    expect(decode('aGkh')).toEqual(new TextEncoder().encode('hi!'));
+  });
+});
+
+describe('createBlob', () => {
+  it('labels the PCM with its rate, 16 kHz by default', () => {
+    expect(createBlob(new Float32Array(4)).mimeType).toBe('audio/pcm;rate=16000');
+    expect(createBlob(new Float32Array(4), 24000).mimeType).toBe('audio/pcm;rate=24000');
+  });
+
+  it('writes little-endian 16-bit samples and clips out-of-range input', () => {
+    const { data } = createBlob(Float32Array.from([0, 1, -1, 2, -2]));
+    const pcm = new Int16Array(decode(data).buffer);
+    expect(Array.from(pcm)).toEqual([0, 32767, -32768, 32767, -32768]);
+  });
+});
+
+describe('decodeAudioData', () => {
+  it('turns 16-bit PCM back into floats', async () => {
+    const pcm = Int16Array.from([0, 16384, -32768, 32767]);
+    const buffer = await decodeAudioData(new Uint8Array(pcm.buffer), fakeContext(), 24000, 1);
+    expect(buffer.sampleRate).toBe(24000);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0, 0.5, -1, 32767 / 32768]);
+  });
+
+  it('de-interleaves channels', async () => {
+    const pcm = Int16Array.from([16384, -16384, 8192, -8192]);
+    const buffer = await decodeAudioData(new Uint8Array(pcm.buffer), fakeContext(), 24000, 2);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5, 0.25]);
+    expect(Array.from(buffer.getChannelData(1))).toEqual([-0.5, -0.25]);
+  });
+
+  it('reads from a view that does not start at the beginning of its buffer', async () => {
+    const bytes = new Uint8Array(6);
+    new DataView(bytes.buffer).setInt16(2, 16384, true);
+    const buffer = await decodeAudioData(bytes.subarray(2, 4), fakeContext(), 24000, 1);
+    expect(Array.from(buffer.getChannelData(0))).toEqual([0.5]);
+  });
+
+  it('survives the round trip through createBlob', async () => {
+    const samples = Float32Array.from([0, 0.25, -0.5, 0.75]);
+    const buffer = await decodeAudioData(decode(createBlob(samples).data), fakeContext(), 16000, 1);
+    buffer.getChannelData(0).forEach((s, i) => expect(s).toBeCloseTo(samples[i], 3));
+  });
+});
+
+describe('createResampler', () => {
+  const ramp = (from: number, length: number) => Float32Array.from({ length }, (_, i) => from + i);
+
+  it('passes audio through when the rates match', () => {
+    const input = ramp(0, 8);
+    expect(createResampler(16000, 16000)(input)).toBe(input);
+  });
+
+  it('halves the sample count from 32 kHz to 16 kHz', () => {
+    expect(Array.from(createResampler(32000, 16000)(ramp(0, 8)))).toEqual([0, 2, 4, 6]);
+  });
+
+  it('interpolates when upsampling', () => {
+    const out = createResampler(16000, 24000)(ramp(0, 3));
+    expect(out.length).toBe(3);
+    [0, 2 / 3, 4 / 3].forEach((s, i) => expect(out[i]).toBeCloseTo(s, 5));
+  });
+
+  it('carries samples between chunks so split input matches one call', () => {
+    const whole = ramp(0, 480);
+    const expected = Array.from(createResampler(48000, 16000)(whole));
+
+    const resample = createResampler(48000, 16000);
+    const bounds = [0, 100, 250, 251, 480];
+    const chunked = bounds.slice(1).flatMap((end, i) => Array.from(resample(whole.subarray(bounds[i], end))));
+    chunked.forEach((s, i) => expect(s).toBeCloseTo(expected[i], 5));
+    expect(chunked.length).toBe(expected.length);
+  });
+
+  it('keeps the output continuous across an uneven 44.1 kHz chunk boundary', () => {
+    const resample = createResampler(44100, 16000);
+    const out = [...resample(ramp(0, 441)), ...resample(ramp(441, 441))];
+    const steps = out.slice(1).map((s, i) => s - out[i]);
+    steps.forEach(step => expect(step).toBeCloseTo(44100 / 16000, 3));
+  });
+});
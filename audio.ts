@@ -0,0 +1,136 @@
+/** * @license * SPDX-License-Identifier: Apache-2.0 */
+
+// PCM helpers for the Live API: 16 kHz mono in, 24 kHz mono out.
+
+export const MIC_SAMPLE_RATE = 16000;
+export const MODEL_SAMPLE_RATE = 24000;
+const CAPTURE_WORKLET_URL = 'capture-worklet.js';
+const CAPTURE_FRAME_MS = 40;
+
+export function decode(base64: string) {
+  const binaryString = atob(base64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function encode(bytes: Uint8Array) {
+  let binary = '';
+  const len = bytes.byteLength;
+  for (let i = 0; i < len; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+export function floatTo16BitPCM(data: Float32Array): Int16Array {
+  const int16 = new Int16Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const s = Math.max(-1, Math.min(1, data[i]));
+    int16[i] = s < 0 ? s * 32768 : s * 32767;
+  }
+  return int16;
+}
+
+export async function decodeAudioData(data: Uint8Array, ctx: BaseAudioContext, sampleRate: number, numChannels: number): Promise<AudioBuffer> {
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, Math.floor(data.byteLength / 2));
+  const frameCount = dataInt16.length / numChannels;
+  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) {
+      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+    }
+  }
+  return buffer;
+}
+
+export function createBlob(data: Float32Array, sampleRate = MIC_SAMPLE_RATE): { data: string; mimeType: string } {
+  return {
+    data: encode(new Uint8Array(floatTo16BitPCM(data).buffer)),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
+  };
+}
+
+// Streaming linear-interpolation resampler. The last input sample and the
+// fractional read position are carried between calls so consecutive chunks
+// join without clicks.
+export function createResampler(fromRate: number, toRate: number) {
+  const step = fromRate / toRate;
+  let pos = 0;
+  let carry: number | null = null;
+
+  return (input: Float32Array): Float32Array => {
+    if (fromRate === toRate) return input;
+    let buf = input;
+    if (carry !== null) {
+      buf = new Float32Array(input.length + 1);
+      buf[0] = carry;
+      buf.set(input, 1);
+    }
+    if (!buf.length) return buf;
+    const out = new Float32Array(Math.max(0, Math.ceil((buf.length - 1 - pos) / step)));
+    let n = 0;
+    while (pos + 1 < buf.length && n < out.length) {
+      const i = Math.floor(pos);
+      const f = pos - i;
+      out[n++] = buf[i] + (buf[i + 1] - buf[i]) * f;
+      pos += step;
+    }
+    pos -= buf.length - 1;
+    carry = buf[buf.length - 1];
+    return n === out.length ? out : out.subarray(0, n);
+  };
+}
+
+// Streams mic audio from `source` as 16 kHz frames of CAPTURE_FRAME_MS,
+// whatever rate the context actually runs at.
+export async function createMicCapture(ctx: AudioContext, source: AudioNode, onFrame: (pcm: Float32Array) => void): Promise<AudioWorkletNode> {
+  await ctx.audioWorklet.addModule(CAPTURE_WORKLET_URL);
+  const node = new AudioWorkletNode(ctx, 'pcm-capture', {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    processorOptions: { frameSize: Math.round(ctx.sampleRate * CAPTURE_FRAME_MS / 1000) },
+  });
+  const resample = createResampler(ctx.sampleRate, MIC_SAMPLE_RATE);
+  node.port.onmessage = (e: MessageEvent<Float32Array>) => onFrame(resample(e.data));
+  source.connect(node);
+  // Output is silent; the connection only keeps the node in the rendering graph
+  node.connect(ctx.destination);
+  return node;
+}
+
+// 16-bit PCM WAV from one Float32Array per channel (all the same length)
+export function encodeWav(channels: Float32Array[], sampleRate: number): Blob {
+  const frames = channels[0]?.length || 0;
+  const blockAlign = channels.length * 2;
+  const view = new DataView(new ArrayBuffer(44 + frames * blockAlign));
+  const text = (offset: number, s: string) => [...s].forEach((c, i) => view.setUint8(offset + i, c.charCodeAt(0)));
+
+  text(0, 'RIFF');
+  view.setUint32(4, 36 + frames * blockAlign, true);
+  text(8, 'WAVE');
+  text(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true);
+  text(36, 'data');
+  view.setUint32(40, frames * blockAlign, true);
+
+  const pcm = channels.map(floatTo16BitPCM);
+  for (let i = 0, offset = 44; i < frames; i++) {
+    for (const channel of pcm) {
+      view.setInt16(offset, channel[i], true);
+      offset += 2;
+    }
+  }
+  return new Blob([view.buffer], { type: 'audio/wav' });
+}
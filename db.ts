@@ -0,0 +1,67 @@
+/** * @license * SPDX-License-Identifier: Apache-2.0 */
+
+// Minimal promise wrapper around one IndexedDB database. Every store uses
+// out-of-line string keys; add new stores to STORES and bump DB_VERSION.
+
+const DB_NAME = 'sadiestar';
+const DB_VERSION = 7;
+const STORES = ['characters', 'avatars', 'gallery', 'safety-log', 'usage', 'fixtures', 'voices'] as const;
+
+export type StoreName = typeof STORES[number];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        for (const name of STORES) {
+          if (!req.result.objectStoreNames.contains(name)) req.result.createObjectStore(name);
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(store: StoreName, mode: IDBTransactionMode, run: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const req = run(db.transaction(store, mode).objectStore(store));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export function dbGet<T>(store: StoreName, key: string): Promise<T | undefined> {
+  return withStore(store, 'readonly', s => s.get(key));
+}
+
+export async function dbPut<T>(store: StoreName, key: string, value: T): Promise<void> {
+  await withStore(store, 'readwrite', s => s.put(value, key));
+}
+
+export async function dbDelete(store: StoreName, key: string): Promise<void> {
+  await withStore(store, 'readwrite', s => s.delete(key));
+}
+
+export async function dbEntries<T>(store: StoreName): Promise<[string, T][]> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const entries: [string, T][] = [];
+    const req = db.transaction(store, 'readonly').objectStore(store).openCursor();
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) return resolve(entries);
+      entries.push([String(cursor.key), cursor.value as T]);
+      cursor.continue();
+    };
+    req.onerror = () => reject(req.error);
+  });
+}
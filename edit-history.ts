@@ -0,0 +1,92 @@
+/** * @license * SPDX-License-Identifier: Apache-2.0 */
+
+export interface EditStep {
+  id: string;
+  // null for the original image
+  parentId: string | null;
+  // Data URL
+  image: string;
+  // Instruction that produced this step; empty for the original
+  prompt: string;
+  createdAt: number;
+}
+
+// Edits form a tree: each edit applies to the current step, so editing after
+// an undo (or after picking an earlier step) starts a new branch instead of
+// throwing the old one away. Redo follows the child that was visited last.
+export interface EditHistory {
+  steps: EditStep[];
+  currentId: string;
+  lastChild: Record<string, string>;
+}
+
+let nextId = 0;
+const stepId = () => `step-${Date.now().toString(36)}-${nextId++}`;
+
+export function createEditHistory(original: string, now = Date.now()): EditHistory {
+  const root: EditStep = { id: stepId(), parentId: null, image: original, prompt: '', createdAt: now };
+  return { steps: [root], currentId: root.id, lastChild: {} };
+}
+
+export function findStep(history: EditHistory, id: string) {
+  return history.steps.find(s => s.id === id);
+}
+
+export function currentStep(history: EditHistory): EditStep {
+  return findStep(history, history.currentId)!;
+}
+
+export function addEditStep(history: EditHistory, image: string, prompt: string, now = Date.now()): EditHistory {
+  const step: EditStep = { id: stepId(), parentId: history.currentId, image, prompt, createdAt: now };
+  return {
+    steps: [...history.steps, step],
+    currentId: step.id,
+    lastChild: { ...history.lastChild, [history.currentId]: step.id },
+  };
+}
+
+export const canUndo = (history: EditHistory) => currentStep(history).parentId !== null;
+export const canRedo = (history: EditHistory) => !!history.lastChild[history.currentId];
+
+export function undoEdit(history: EditHistory): EditHistory {
+  const parentId = currentStep(history).parentId;
+  return parentId ? { ...history, currentId: parentId } : history;
+}
+
+export function redoEdit(history: EditHistory): EditHistory {
+  const childId = history.lastChild[history.currentId];
+  return childId ? { ...history, currentId: childId } : history;
+}
+
+// Jumps to any step, remembering the path to it so undo/redo retrace it
+export function selectEditStep(history: EditHistory, id: string): EditHistory {
+  if (!findStep(history, id)) return history;
+  const lastChild = { ...history.lastChild };
+  for (let step = findStep(history, id); step?.parentId; step = findStep(history, step.parentId)) {
+    lastChild[step.parentId] = step.id;
+  }
+  return { ...history, currentId: id, lastChild };
+}
+
+// Original image first, ending at the given step
+export function editChain(history: EditHistory, id = history.currentId): EditStep[] {
+  const chain: EditStep[] = [];
+  for (let step = findStep(history, id); step; step = step.parentId ? findStep(history, step.parentId) : undefined) {
+    chain.unshift(step);
+  }
+  return chain;
+}
+
+// The chain to the current step plus the steps redo would walk through
+export function visibleTimeline(history: EditHistory): { past: EditStep[]; future: EditStep[] } {
+  const past = editChain(history);
+  const future: EditStep[] = [];
+  for (let id = history.lastChild[history.currentId]; id; id = history.lastChild[id]) {
+    future.push(findStep(history, id)!);
+  }
+  return { past, future };
+}
+
+export function siblingSteps(history: EditHistory, step: EditStep): EditStep[] {
+  return history.steps.filter(s => s.parentId === step.parentId);
+}
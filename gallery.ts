@@ -0,0 +1,62 @@
+/** * @license * SPDX-License-Identifier: Apache-2.0 */
+import { dbDelete, dbEntries, dbPut } from './db';
+import { formatExtension } from './image';
+
+export type AssetSource = 'studio' | 'editor' | 'cinema' | 'lens';
+
+export interface GalleryAsset {
+  id: string;
+  kind: 'image' | 'video';
+  source: AssetSource;
+  blob: Blob;
+  prompt: string;
+  model: string;
+  // Extra text kept with the asset, e.g. Lens analysis
+  notes?: string;
+  createdAt: number;
+}
+
+export type NewGalleryAsset = Omit<GalleryAsset, 'id' | 'createdAt'>;
+
+export async function saveAsset(asset: NewGalleryAsset): Promise<GalleryAsset> {
+  const saved: GalleryAsset = {
+    ...asset,
+    id: `${asset.source}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    createdAt: Date.now(),
+  };
+  await dbPut('gallery', saved.id, saved);
+  return saved;
+}
+
+// Newest first
+export async function listAssets(): Promise<GalleryAsset[]> {
+  const entries = await dbEntries<GalleryAsset>('gallery');
+  return entries.map(([, a]) => a).sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export function deleteAsset(id: string): Promise<void> {
+  return dbDelete('gallery', id);
+}
+
+export function matchesSearch(asset: GalleryAsset, query: string) {
+  const q = query.trim().toLowerCase();
+  if (!q) return true;
+  return [asset.prompt, asset.model, asset.source, asset.notes || ''].some(f => f.toLowerCase().includes(q));
+}
+
+export async function dataUrlToBlob(dataUrl: string): Promise<Blob> {
+  return (await fetch(dataUrl)).blob();
+}
+
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+export function assetExtension(asset: GalleryAsset) {
+  return asset.blob.type ? formatExtension(asset.blob.type) : asset.kind === 'video' ? 'mp4' : 'png';
+}
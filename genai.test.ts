@@ -0,0 +1,27 @@
+/** * @license * SPDX-License-Identifier: Apache-2.0 */
+import { describe, expect, it, vi } from 'vitest';
+import { toGenAIError, withRetry } from './genai';
+
+describe('toGenAIError', () => {
+  it('reads the kind from the status in the message', () => {
+    expect(toGenAIError(new Error('got status: 429 Too Many Requests')).kind).toBe('quota');
+    expect(toGenAIError(new Error('got status: 503 overloaded')).kind).toBe('unavailable');
+    expect(toGenAIError(new TypeError('Failed to fetch')).kind).toBe('network');
+  });
+});
+
+describe('withRetry', () => {
+  it('retries transient failures', async () => {
+    const run = vi.fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce('ok');
+    expect(await withRetry(run, undefined, 1)).toBe('ok');
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not resend a submit after a network error', async () => {
+    const run = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+    await expect(withRetry(run, undefined, 2, ['quota', 'unavailable'])).rejects.toMatchObject({ kind: 'network' });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
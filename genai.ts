@@ -0,0 +1,336 @@
+/** * @license * SPDX-License-Identifier: Apache-2.0 */
+import { GenerateVideosOperation, GroundingSupport, LiveConnectParameters, Modality, Schema, Tool, ToolConfig } from '@google/genai';
+import { detectBase64Mime } from './image';
+import { createMockProvider } from './mock-provider';
+import { GenAIProvider, LiveSession, createGeminiProvider, createRecordingProvider, selectedProviderName } from './provider';
+import {
+  CONTENT_SAFETY_SETTINGS, IMAGE_SAFETY_CONFIG, SafetyBlockError, SafetyTool, VIDEO_NEGATIVE_PROMPT,
+  guardContentResponse, guardImagesResponse, guardPrompt, guardVideosResponse
+} from './safety';
+
+// The one place that talks to Gemini. Components call these functions instead
+// of building their own client, so model ids, safety checks, retries and error
+// handling are the same everywhere. The requests themselves go through a
+// provider (provider.ts), which may be the offline mock.
+
+export const MODELS = {
+  image: 'imagen-4.0-generate-001',
+  edit: 'gemini-2.5-flash-image',
+  video: 'veo-3.1-fast-generate-preview',
+  vision: 'gemini-3-pro-preview',
+  search: 'gemini-2.5-flash',
+  text: 'gemini-2.5-flash',
+  tts: 'gemini-2.5-flash-preview-tts',
+  live: 'gemini-2.5-flash-native-audio-preview-09-2025',
+} as const;
+
+const VIDEO_POLL_INTERVAL = 5000;
+
+export type GenAIErrorKind = 'quota' | 'safety' | 'network' | 'auth' | 'unavailable' | 'empty' | 'cancelled' | 'unknown';
+
+const FRIENDLY_MESSAGES: Record<GenAIErrorKind, string> = {
+  quota: 'Sadie is a little too busy right now. Wait a minute and try again!',
+  safety: 'That one is not okay for Sadie to make. Try a different idea!',
+  network: "Sadie can't reach the internet. Check your connection and try again.",
+  auth: 'Sadie needs a grown-up to check the API key.',
+  unavailable: 'The AI is taking a little nap. Try again in a moment!',
+  empty: "The AI didn't make anything that time. Try describing it a different way!",
+  cancelled: 'Stopped.',
+  unknown: 'Something went wrong. Please try again.',
+};
+
+const RETRYABLE: GenAIErrorKind[] = ['quota', 'network', 'unavailable'];
+
+export class GenAIError extends Error {
+  constructor(public kind: GenAIErrorKind, message: string, public friendlyMessage = FRIENDLY_MESSAGES[kind], cause?: unknown) {
+    super(message, { cause });
+    this.name = 'GenAIError';
+  }
+
+  get retryable() {
+    return RETRYABLE.includes(this.kind);
+  }
+}
+
+export function toGenAIError(e: unknown): GenAIError {
+  if (e instanceof GenAIError) return e;
+  if (e instanceof SafetyBlockError) return new GenAIError('safety', e.message, e.friendlyMessage, e);
+  if (e instanceof DOMException && e.name === 'AbortError') return new GenAIError('cancelled', e.message, undefined, e);
+
+  const message = e instanceof Error ? e.message : String(e);
+  const status = Number(message.match(/got status: (\d{3})/)?.[1] || 0);
+  let kind: GenAIErrorKind = 'unknown';
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) kind = 'quota';
+  else if (status === 401 || status === 403 || /API key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) kind = 'auth';
+  else if (status >= 500 || /UNAVAILABLE|overloaded/i.test(message)) kind = 'unavailable';
+  else if (e instanceof TypeError && /fetch|network|load failed/i.test(message)) kind = 'network';
+  else if (!navigator.onLine) kind = 'network';
+  return new GenAIError(kind, message, undefined, e);
+}
+
+export interface RequestOptions {
+  // Which tool is asking; used by the safety log
+  tool: SafetyTool;
+  // The SDK can't abort an HTTP request, so cancelling stops waiting for it
+  // and drops the result
+  signal?: AbortSignal;
+}
+
+function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw new GenAIError('cancelled', 'Request cancelled');
+}
+
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  throwIfAborted(signal);
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new GenAIError('cancelled', 'Request cancelled'));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+export const sleep = (ms: number, signal?: AbortSignal) => abortable(new Promise<void>(r => setTimeout(r, ms)), signal);
+
+// Paid submits (pictures, videos) are only retried when the server turned them
+// away. After a network error the job may have been accepted anyway, and
+// sending it again would make, and bill, it twice.
+const SUBMIT_RETRYABLE: GenAIErrorKind[] = ['quota', 'unavailable'];
+
+// Retries transient failures with exponential backoff
+export async function withRetry<T>(run: () => Promise<T>, signal?: AbortSignal, retries = 2, retryable = RETRYABLE): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await abortable(run(), signal);
+    } catch (e) {
+      const err = toGenAIError(e);
+      if (!retryable.includes(err.kind) || attempt >= retries) throw err;
+      await sleep(1000 * 2 ** attempt + Math.random() * 250, signal);
+    }
+  }
+}
+
+let provider: GenAIProvider | null = null;
+
+export function getProvider() {
+  if (!provider) {
+    const name = selectedProviderName();
+    if (name === 'mock') provider = createMockProvider();
+    else if (name === 'record') provider = createRecordingProvider(createGeminiProvider());
+    else provider = createGeminiProvider();
+  }
+  return provider;
+}
+
+function splitDataUrl(dataUrl: string) {
+  const [header, data] = dataUrl.split(',');
+  return { mimeType: detectBase64Mime(data) || header.match(/data:(.*?);/)?.[1] || 'image/jpeg', data };
+}
+
+const MASK_INSTRUCTION = 'The second image is a mask. Only change the area that is white in the mask and keep everything in the black area exactly the same.';
+
+export async function generateImages(
+  params: { prompt: string; aspectRatio?: string; numberOfImages?: number },
+  options: RequestOptions
+): Promise<string[]> {
+  const { prompt, aspectRatio = '1:1', numberOfImages = 1 } = params;
+  await guardPrompt(options.tool, prompt);
+  const resp = await withRetry(() => getProvider().generateImages({
+    model: MODELS.image,
+    prompt,
+    config: { numberOfImages, aspectRatio, outputMimeType: 'image/jpeg', ...IMAGE_SAFETY_CONFIG }
+  }), options.signal, 2, SUBMIT_RETRYABLE);
+  await guardImagesResponse(options.tool, prompt, resp);
+  const images = (resp.generatedImages || [])
+    .map(img => img.image?.imageBytes)
+    .filter(Boolean)
+    .map(bytes => `data:image/jpeg;base64,${bytes}`);
+  if (!images.length) throw new GenAIError('empty', 'No image returned');
+  return images;
+}
+
+// Edits a data-URL image and returns the edited image as a data URL. An
+// optional white-on-black mask limits the edit to the white area.
+export async function editImage(params: { image: string; instruction: string; mask?: string }, options: RequestOptions): Promise<string> {
+  const { image, instruction, mask } = params;
+  await guardPrompt(options.tool, instruction);
+  const parts = mask
+    ? [{ inlineData: splitDataUrl(image) }, { inlineData: splitDataUrl(mask) }, { text: `${MASK_INSTRUCTION}\n\n${instruction}` }]
+    : [{ inlineData: splitDataUrl(image) }, { text: instruction }];
+  const resp = await withRetry(() => getProvider().generateContent({
+    model: MODELS.edit,
+    contents: { parts },
+    config: { safetySettings: CONTENT_SAFETY_SETTINGS }
+  }), options.signal, 2, SUBMIT_RETRYABLE);
+  await guardContentResponse(options.tool, instruction, resp);
+  const output = resp.candidates?.[0]?.content?.parts?.find(p => p.inlineData?.data)?.inlineData;
+  if (!output) {
+    const text = resp.text;
+    throw new GenAIError('empty', 'No image returned', text ? `The AI answered with words instead of a picture: "${text}"` : undefined);
+  }
+  return `data:${detectBase64Mime(output.data!) || output.mimeType || 'image/png'};base64,${output.data}`;
+}
+
+// Text-to-speech with a prebuilt voice. Returns base64 16-bit PCM at 24 kHz,
+// the same format the Live API streams.
+export async function speak(params: { text: string; voiceName: string; style?: string }, options: RequestOptions): Promise<string> {
+  const { text, voiceName, style } = params;
+  await guardPrompt(options.tool, text);
+  const resp = await withRetry(() => getProvider().generateContent({
+    model: MODELS.tts,
+    contents: style ? `${style}\nSay: "${text}"` : text,
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } },
+    }
+  }), options.signal);
+  const audio = resp.candidates?.[0]?.content?.parts?.find(p => p.inlineData?.data)?.inlineData?.data;
+  if (!audio) throw new GenAIError('empty', 'No audio returned');
+  return audio;
+}
+
+const ENHANCE_INSTRUCTION = `You help children write prompts for a picture generator.
+Rewrite the child's idea as one detailed picture description of at most 60 words: the subject, what it is doing, the setting, colours and mood.
+Keep their idea and keep it friendly for young children. Do not mention an art style or medium. Reply with the description only.`;
+
+// Expands a short idea ("a cat on the moon") into a detailed image prompt
+export async function enhancePrompt(prompt: string, options: RequestOptions): Promise<string> {
+  await guardPrompt(options.tool, prompt);
+  const resp = await withRetry(() => getProvider().generateContent({
+    model: MODELS.text,
+    contents: prompt,
+    config: { systemInstruction: ENHANCE_INSTRUCTION, safetySettings: CONTENT_SAFETY_SETTINGS }
+  }), options.signal);
+  await guardContentResponse(options.tool, prompt, resp);
+  const text = resp.text?.trim();
+  if (!text) throw new GenAIError('empty', 'No prompt returned');
+  return text;
+}
+
+// Structured output: the reply must match the schema and comes back parsed
+// With an image the vision model answers about it instead
+export async function generateJson<T>(
+  params: { prompt: string; schema: Schema; systemInstruction?: string; image?: string },
+  options: RequestOptions
+): Promise<T> {
+  const { prompt, schema, systemInstruction, image } = params;
+  await guardPrompt(options.tool, prompt);
+  const resp = await withRetry(() => getProvider().generateContent({
+    model: image ? MODELS.vision : MODELS.text,
+    contents: image ? { parts: [{ inlineData: splitDataUrl(image) }, { text: prompt }] } : prompt,
+    config: { systemInstruction, responseMimeType: 'application/json', responseSchema: schema, safetySettings: CONTENT_SAFETY_SETTINGS }
+  }), options.signal);
+  await guardContentResponse(options.tool, prompt, resp);
+  if (!resp.text) throw new GenAIError('empty', 'No JSON returned');
+  try {
+    return JSON.parse(resp.text);
+  } catch (e) {
+    throw new GenAIError('empty', 'Reply was not valid JSON', undefined, e);
+  }
+}
+
+// Starts a Veo job from a prompt, a starting image (data URL), or both. The
+// returned operation is plain JSON, so callers can save it and resume later.
+export async function startVideo(
+  params: { prompt?: string; aspectRatio?: string; image?: string; durationSeconds?: number },
+  options: RequestOptions
+): Promise<GenerateVideosOperation> {
+  const { prompt, aspectRatio = '16:9', image, durationSeconds } = params;
+  if (prompt) await guardPrompt(options.tool, prompt);
+  const start = image && splitDataUrl(image);
+  return withRetry(() => getProvider().generateVideos({
+    model: MODELS.video,
+    prompt: prompt || undefined,
+    image: start ? { imageBytes: start.data, mimeType: start.mimeType } : undefined,
+    config: { numberOfVideos: 1, resolution: '720p', aspectRatio, durationSeconds, negativePrompt: VIDEO_NEGATIVE_PROMPT }
+  }), options.signal, 2, SUBMIT_RETRYABLE);
+}
+
+// Polls a started (or saved) operation until it is done, then downloads the
+// video. Cancelling only stops waiting; Veo keeps rendering on its side.
+export async function finishVideo(
+  operation: GenerateVideosOperation,
+  prompt: string,
+  options: RequestOptions & { onProgress?: (status: string) => void }
+): Promise<Blob> {
+  const { signal, onProgress } = options;
+  let op = operation;
+  while (!op.done) {
+    onProgress?.('Rendering frames...');
+    await sleep(VIDEO_POLL_INTERVAL, signal);
+    const pending = op;
+    op = await withRetry(() => getProvider().getVideosOperation(pending), signal);
+  }
+
+  if (op.error) throw toGenAIError(new Error(String(op.error.message || 'Video operation failed')));
+  await guardVideosResponse(options.tool, prompt, op.response);
+  const uri = op.response?.generatedVideos?.[0]?.video?.uri;
+  if (!uri) throw new GenAIError('empty', 'No video URI returned', "Veo finished but didn't send back a video. Try describing it a different way!");
+
+  onProgress?.('Downloading...');
+  return withRetry(() => getProvider().downloadVideo(uri, signal), signal);
+}
+
+export async function generateVideo(
+  params: { prompt?: string; aspectRatio?: string; image?: string; durationSeconds?: number },
+  options: RequestOptions & { onProgress?: (status: string) => void; onStarted?: (operation: GenerateVideosOperation) => void }
+): Promise<Blob> {
+  const operation = await startVideo(params, options);
+  options.onStarted?.(operation);
+  return finishVideo(operation, params.prompt || '', options);
+}
+
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+// Earlier turns make it a follow-up; the image always rides on the first turn
+export async function analyzeImage(
+  params: { image: string; prompt: string; history?: ChatTurn[] },
+  options: RequestOptions
+): Promise<string> {
+  const { image, prompt, history = [] } = params;
+  await guardPrompt(options.tool, prompt);
+  const turns = [...history, { role: 'user', text: prompt }];
+  const resp = await withRetry(() => getProvider().generateContent({
+    model: MODELS.vision,
+    contents: turns.map((t, i) => ({
+      role: t.role,
+      parts: i === 0 ? [{ inlineData: splitDataUrl(image) }, { text: t.text }] : [{ text: t.text }],
+    })),
+    config: { safetySettings: CONTENT_SAFETY_SETTINGS }
+  }), options.signal);
+  await guardContentResponse(options.tool, prompt, resp);
+  if (!resp.text) throw new GenAIError('empty', 'No analysis returned');
+  return resp.text;
+}
+
+// Earlier turns are sent along so follow-up questions keep their context
+export async function groundedSearch(
+  params: { query: string; useMaps?: boolean; location?: { latitude: number; longitude: number }; history?: ChatTurn[] },
+  options: RequestOptions
+): Promise<{ text: string; chunks: any[]; supports: GroundingSupport[] }> {
+  const { query, useMaps, location, history = [] } = params;
+  await guardPrompt(options.tool, query);
+  // googleMaps grounding is newer than this SDK's Tool type
+  const tools: Tool[] = useMaps ? [{ googleMaps: {} } as Tool] : [{ googleSearch: {} }];
+  const toolConfig = location ? { retrievalConfig: { latLng: location } } as ToolConfig : undefined;
+  const resp = await withRetry(() => getProvider().generateContent({
+    model: MODELS.search,
+    contents: history.length
+      ? [...history, { role: 'user', text: query }].map(t => ({ role: t.role, parts: [{ text: t.text }] }))
+      : query,
+    config: { tools, toolConfig, safetySettings: CONTENT_SAFETY_SETTINGS }
+  }), options.signal);
+  await guardContentResponse(options.tool, query, resp);
+  return {
+    text: resp.text || '',
+    chunks: resp.candidates?.[0]?.groundingMetadata?.groundingChunks || [],
+    supports: resp.candidates?.[0]?.groundingMetadata?.groundingSupports || []
+  };
+}
+
+export function connectLive(params: Omit<LiveConnectParameters, 'model'> & { model?: string }): Promise<LiveSession> {
+  return withRetry(() => getProvider().connectLive({ model: MODELS.live, ...params }));
+}
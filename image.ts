@@ -0,0 +1,113 @@
+/** * @license * SPDX-License-Identifier: Apache-2.0 */
+
+// Canvas helpers for the Editor: real MIME detection, downscaling before
+// upload, region masks and format conversion for downloads.
+
+export type ImageFormat = 'image/png' | 'image/jpeg' | 'image/webp';
+
+// Longest side sent to the model; bigger uploads are scaled down first
+export const MAX_UPLOAD_SIDE = 1536;
+
+const SIGNATURES: [string, number[], number?][] = [
+  ['image/png', [0x89, 0x50, 0x4e, 0x47]],
+  ['image/jpeg', [0xff, 0xd8, 0xff]],
+  ['image/gif', [0x47, 0x49, 0x46, 0x38]],
+  ['image/webp', [0x57, 0x45, 0x42, 0x50], 8], // after "RIFF" + size
+  ['image/bmp', [0x42, 0x4d]],
+];
+
+// Reads the type from the file's first bytes; file names and data URL headers can lie
+export function detectImageMime(bytes: Uint8Array): string | null {
+  for (const [mime, signature, offset = 0] of SIGNATURES) {
+    if (signature.every((b, i) => bytes[offset + i] === b)) return mime;
+  }
+  return null;
+}
+
+// Only the first few bytes of a base64 string are needed to sniff it
+export function detectBase64Mime(base64: string): string | null {
+  const head = atob(base64.slice(0, 24));
+  return detectImageMime(Uint8Array.from(head, c => c.charCodeAt(0)));
+}
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not read that picture'));
+    img.src = src;
+  });
+}
+
+function canvasOf(width: number, height: number) {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, ctx: canvas.getContext('2d')! };
+}
+
+// Scales the image down to fit maxSide and re-labels it with its real type.
+// Types the model can't read (GIF, BMP...) are converted to PNG.
+export async function prepareImage(dataUrl: string, maxSide = MAX_UPLOAD_SIDE): Promise<string> {
+  const [, data] = dataUrl.split(',');
+  const mime = detectBase64Mime(data);
+  const img = await loadImage(dataUrl);
+  const scale = Math.min(1, maxSide / Math.max(img.naturalWidth, img.naturalHeight));
+  const supported = mime === 'image/png' || mime === 'image/jpeg' || mime === 'image/webp';
+  if (scale === 1 && supported) return `data:${mime};base64,${data}`;
+
+  const { canvas, ctx } = canvasOf(Math.round(img.naturalWidth * scale), Math.round(img.naturalHeight * scale));
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL(supported ? mime! : 'image/png', 0.92);
+}
+
+export async function convertImage(dataUrl: string, format: ImageFormat, quality = 0.92): Promise<Blob> {
+  const img = await loadImage(dataUrl);
+  const { canvas, ctx } = canvasOf(img.naturalWidth, img.naturalHeight);
+  if (format === 'image/jpeg') {
+    // JPEG has no transparency; keep see-through areas white instead of black
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  ctx.drawImage(img, 0, 0);
+  return new Promise((resolve, reject) => canvas.toBlob(b => b ? resolve(b) : reject(new Error('Could not convert picture')), format, quality));
+}
+
+// Masks are painted as any colour on a transparent canvas. The model gets a
+// plain white-on-black version, which is the usual mask convention.
+export async function maskForModel(mask: string): Promise<string> {
+  const img = await loadImage(mask);
+  const { canvas: white, ctx: whiteCtx } = canvasOf(img.naturalWidth, img.naturalHeight);
+  whiteCtx.drawImage(img, 0, 0);
+  whiteCtx.globalCompositeOperation = 'source-in';
+  whiteCtx.fillStyle = '#fff';
+  whiteCtx.fillRect(0, 0, white.width, white.height);
+
+  const { canvas, ctx } = canvasOf(img.naturalWidth, img.naturalHeight);
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(white, 0, 0);
+  return canvas.toDataURL('image/png');
+}
+
+// Keeps the original outside the mask, whatever the model did there. The edit
+// is scaled to the original's size since the model may answer at another size.
+export async function compositeMasked(original: string, edited: string, mask: string): Promise<string> {
+  const [base, result, maskImg] = await Promise.all([loadImage(original), loadImage(edited), loadImage(mask)]);
+  const { naturalWidth: width, naturalHeight: height } = base;
+
+  const { canvas: region, ctx: regionCtx } = canvasOf(width, height);
+  regionCtx.drawImage(result, 0, 0, width, height);
+  regionCtx.globalCompositeOperation = 'destination-in';
+  regionCtx.drawImage(maskImg, 0, 0, width, height);
+
+  const { canvas, ctx } = canvasOf(width, height);
+  ctx.drawImage(base, 0, 0);
+  ctx.drawImage(region, 0, 0);
+  return canvas.toDataURL(original.startsWith('data:image/jpeg') ? 'image/jpeg' : 'image/png', 0.92);
+}
+
+export function formatExtension(format: string) {
+  const subtype = format.split('/')[1]?.split(';')[0];
+  return subtype === 'jpeg' ? 'jpg' : subtype || 'png';
+}
@@ -1,55 +1,114 @@
 /** * @license * SPDX-License-Identifier: Apache-2.0 */
-import { createApp, ref, defineComponent, onMounted, onUnmounted, computed, watch, nextTick } from 'vue';
-import { GoogleGenAI, LiveServerMessage, Modality, Session, Type } from '@google/genai';
+import { createApp, ref, shallowRef, defineComponent, onMounted, onUnmounted, computed, watch, nextTick, PropType } from 'vue';
+import { FunctionDeclaration, FunctionResponse, GenerateVideosOperation, LiveServerMessage, Modality, Schema, Type } from '@google/genai';
+import {
+  AGENT_SPEC_FORMAT, AGENT_SPEC_VERSION, AGENT_TOOLS, AgentGuardrails, AgentMood, AgentSpec, AgentTool, agentFileName,
+  agentInstruction, agentSafetyConfig, exportAgentBundle, readAgentBundle, validateAgentSpec
+} from './agent-spec';
+import { MODEL_SAMPLE_RATE, createBlob, createMicCapture, decode, decodeAudioData, encodeWav } from './audio';
+import { dbDelete, dbEntries, dbGet, dbPut } from './db';
+import {
+  EditHistory, EditStep, addEditStep, canRedo, canUndo, createEditHistory, currentStep, editChain, redoEdit,
+  selectEditStep, siblingSteps, undoEdit, visibleTimeline
+} from './edit-history';
+import { ChatTurn, GenAIError, GenAIErrorKind, MODELS, analyzeImage, connectLive, editImage, enhancePrompt, finishVideo, generateImages, generateJson, generateVideo, getProvider, groundedSearch, speak, toGenAIError } from './genai';
+import { GalleryAsset, NewGalleryAsset, assetExtension, blobToDataUrl, dataUrlToBlob, deleteAsset, listAssets, matchesSearch, saveAsset } from './gallery';
+import { ImageFormat, compositeMasked, convertImage, formatExtension, loadImage, maskForModel, prepareImage } from './image';
+import { DEFAULT_LENS_QUESTION, DetectedObject, LENS_SCHEMA, lensPrompt, normalizeLensAnalysis } from './lens';
+import {
+  DailyUsage, LimitReachedError, ParentTool, checkAllowance, isToolEnabled, limitMessage, listUsage, parentSettings,
+  recordUsage, saveParentSettings, setPin, verifyPin
+} from './parental';
+import {
+  GEOCODE_SCHEMA, Place, SearchLocation, distanceKm, formatDistance, geocodePrompt, loadSavedPlaces, loadSearchCity,
+  placeFromChunk, readGeocodes, removeSavedPlace, savePlace, saveSearchCity
+} from './places';
+import { LiveSession, exportFixtures } from './provider';
+import { ConversationTracks, createConversationRecorder, mixTracks } from './recording';
+import { SafetyLogEntry, clearSafetyLog, getSafetyConfig, guardPrompt, listSafetyLog, setSafetyConfig } from './safety';
+import {
+  SearchHistoryEntry, SearchSource, addCitations, addSearchHistory, chunkSource, clearSearchHistory, deleteSearchHistory,
+  loadSearchHistory, renderMarkdown
+} from './scout';
+import { MovieScript, SCENE_DURATIONS, Scene, emptyScene, normalizeScript, scriptDuration } from './script';
+import { createSilenceManager } from './silence';
+import { TranscriptRole, TranscriptTurn, appendTranscript, completeTranscript, transcriptToJson, transcriptToText } from './transcript';
+import { ZipEntry, createZip } from './zip';
 
-const DEFAULT_DIALOG_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
 const QUIET_THRESHOLD = 0.01; 
 const QUIET_DURATION = 2000; 
 const EXTENDED_QUIET_DURATION = 10000;
+const CHECK_IN_TIMEOUT = 15000;
+const CHECK_IN_PROMPT = 'The user has been quiet for a while. Gently ask if they are still there, in one short sentence.';
+// The Live API can't change the voice or tools of an open session, so either change means a new session
+const SESSION_CHANGE_PROMPT = 'Your voice or abilities were just changed. Say hi again in one short sentence and ask what to do next.';
+const instructionUpdate = (instruction: string) => `Your instructions have changed. From now on: ${instruction}`;
+const PREROLL_FRAMES = 8;
+// "Show Sadie" camera: frames per second sent to the live session, and the
+// longest side they're scaled to. Low rates are plenty for holding up a drawing.
+const CAMERA_FPS = 1;
+const CAMERA_FPS_OPTIONS = [0.5, 1, 2];
+const CAMERA_FRAME_SIDE = 768;
 const KEY_URL = 'key.jpeg'; // Placeholder
 const PRELOAD_URL = 'preload.png'; // Placeholder
 
 declare global {
   interface Window {
     webkitAudioContext: typeof AudioContext;
-    aistudio?: AIStudio;
-  }
-  interface AIStudio {
-    hasSelectedApiKey: () => Promise<boolean>;
-    openSelectKey: () => Promise<void>;
   }
 }
 
 // --- Data Constants ---
 
-const CHARACTER_ATTRIBUTES: Record<string, any> = {
+interface CharacterInfo {
+  name: string;
+  emoji: string;
+  visualDescriptor: string;
+  trait: string;
+  accessories?: string[];
+  voiceName?: string;
+  // Custom characters keep the builder's raw personality text for editing
+  personality?: string;
+  custom?: boolean;
+  // Imported agents may bring their own moods, live tools and guardrails
+  moods?: Record<string, AgentMood>;
+  defaultMood?: string;
+  tools?: AgentTool[];
+  guardrails?: AgentGuardrails;
+}
+
+const CHARACTER_ATTRIBUTES: Record<string, CharacterInfo> = {
   'dog': { 
     name: 'Rowan "Barn" Beagle', 
     emoji: '🐶', 
     visualDescriptor: 'A beagle with floppy ears, a wet black nose, and an alert expression. Wears a small detective-style hat.',
-    trait: 'You are a loyal, curious detective dog.'
+    trait: 'You are a loyal, curious detective dog.',
+    voiceName: 'Fenrir'
   },
   'cat': { 
     name: 'Shiloh "Silky" Siamese', 
     emoji: '🐱', 
     visualDescriptor: 'A sleek Siamese cat with striking blue eyes. Wears a stylish collar.',
-    trait: 'You are a sophisticated, slightly sarcastic but caring cat.'
+    trait: 'You are a sophisticated, slightly sarcastic but caring cat.',
+    voiceName: 'Despina'
   },
   'robot': { 
     name: 'R0-B0', 
     emoji: '🤖', 
     visualDescriptor: 'A cute, round robot with glowing eyes and a metallic finish.',
-    trait: 'You are a helpful, logical, and enthusiastic robot assistant.'
+    trait: 'You are a helpful, logical, and enthusiastic robot assistant.',
+    voiceName: 'Charon'
   },
   'alien': { 
     name: 'Zorp', 
     emoji: '👽', 
     visualDescriptor: 'A friendly green alien with large black eyes and a small spacesuit.',
-    trait: 'You are a curious explorer from another planet learning about Earth.'
+    trait: 'You are a curious explorer from another planet learning about Earth.',
+    voiceName: 'Puck'
   }
 };
 
-const MOOD_ATTRIBUTES: Record<string, any> = {
+const MOOD_ATTRIBUTES: Record<string, AgentMood> = {
   'Happy': { 
     emoji: '😊', 
     visualDescriptor: 'Beaming smile with sparkling eyes, body bouncing with energy.',
@@ -76,50 +135,167 @@ const VISUAL_ACCESSORIES: Record<string, string[]> = {
   'Default': ['a colorful scarf', 'a shiny badge', 'a small hat', 'a backpack']
 };
 
-// --- Helpers ---
+// Prebuilt Gemini voices and how each one sounds
+const VOICES = [
+  { name: 'Zephyr', style: 'Bright' }, { name: 'Puck', style: 'Upbeat' }, { name: 'Charon', style: 'Informative' },
+  { name: 'Kore', style: 'Firm' }, { name: 'Fenrir', style: 'Excitable' }, { name: 'Leda', style: 'Youthful' },
+  { name: 'Orus', style: 'Firm' }, { name: 'Aoede', style: 'Breezy' }, { name: 'Callirrhoe', style: 'Easy-going' },
+  { name: 'Autonoe', style: 'Bright' }, { name: 'Enceladus', style: 'Breathy' }, { name: 'Iapetus', style: 'Clear' },
+  { name: 'Umbriel', style: 'Easy-going' }, { name: 'Algieba', style: 'Smooth' }, { name: 'Despina', style: 'Smooth' },
+  { name: 'Erinome', style: 'Clear' }, { name: 'Algenib', style: 'Gravelly' }, { name: 'Rasalgethi', style: 'Informative' },
+  { name: 'Laomedeia', style: 'Upbeat' }, { name: 'Achernar', style: 'Soft' }, { name: 'Alnilam', style: 'Firm' },
+  { name: 'Schedar', style: 'Even' }, { name: 'Gacrux', style: 'Mature' }, { name: 'Pulcherrima', style: 'Forward' },
+  { name: 'Achird', style: 'Friendly' }, { name: 'Zubenelgenubi', style: 'Casual' }, { name: 'Vindemiatrix', style: 'Gentle' },
+  { name: 'Sadachbia', style: 'Lively' }, { name: 'Sadaltager', style: 'Knowledgeable' }, { name: 'Sulafat', style: 'Warm' },
+];
+const VOICE_NAMES = VOICES.map(v => v.name);
+const DEFAULT_VOICE = 'Kore';
 
-function decode(base64: string) {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
+// Voices the user picked for a character, over the character's default
+const VOICE_OVERRIDES_KEY = 'sadie-voice-overrides';
+
+// A damaged entry falls back to every character's default voice
+function loadVoiceOverrides(): Record<string, string> {
+  try {
+    const saved = JSON.parse(localStorage.getItem(VOICE_OVERRIDES_KEY) || '{}');
+    return saved && typeof saved === 'object' && !Array.isArray(saved) ? saved : {};
+  } catch {
+    return {};
   }
-  return bytes;
 }
 
-function encode(bytes: Uint8Array) {
-  let binary = '';
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
+const voiceOverrides = ref<Record<string, string>>(loadVoiceOverrides());
+
+function setVoiceOverride(characterId: string, voiceName: string | null) {
+  const next = { ...voiceOverrides.value };
+  if (voiceName) next[characterId] = voiceName;
+  else delete next[characterId];
+  voiceOverrides.value = next;
+  localStorage.setItem(VOICE_OVERRIDES_KEY, JSON.stringify(next));
+}
+
+function characterVoice(characterId: string, char: CharacterInfo) {
+  return voiceOverrides.value[characterId] || char.voiceName || DEFAULT_VOICE;
+}
+
+const characterMoods = (char: CharacterInfo) => char.moods || MOOD_ATTRIBUTES;
+
+const personaTrait = (name: string, personality: string) => `You are ${name}. Your personality: ${personality}`;
+
+// Characters the user built, loaded from IndexedDB
+const customCharacters = ref<Record<string, CharacterInfo>>({});
+const allCharacters = computed<Record<string, CharacterInfo>>(() => ({ ...CHARACTER_ATTRIBUTES, ...customCharacters.value }));
+
+async function loadCustomCharacters() {
+  try {
+    customCharacters.value = Object.fromEntries(await dbEntries<CharacterInfo>('characters'));
+  } catch (e) {
+    console.warn('Could not load custom characters', e);
   }
-  return btoa(binary);
 }
 
-async function decodeAudioData(data: Uint8Array, ctx: AudioContext, sampleRate: number, numChannels: number): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-  for (let channel = 0; channel < numChannels; channel++) {
-    const channelData = buffer.getChannelData(channel);
-    for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+// Shared by CharacterImage and the Studio's claymation preset so both look the same
+const claymationPrompt = (subject: string, extra = '') =>
+  `A cute claymation style 3d render of ${subject}. Simple shapes, vibrant colors, ${extra}soft lighting, depth of field. High quality, miniature aesthetic.`;
+
+interface StylePreset {
+  id: string;
+  label: string;
+  icon: string;
+  prompt: (subject: string) => string;
+}
+
+const STYLE_PRESETS: StylePreset[] = [
+  { id: 'none', label: 'No style', icon: '✏️', prompt: subject => subject },
+  { id: 'claymation', label: 'Claymation', icon: '🧸', prompt: subject => claymationPrompt(subject) },
+  { id: 'watercolor', label: 'Watercolor', icon: '🎨', prompt: subject => `A soft watercolor painting of ${subject}. Gentle washes of color, visible paper texture, loose brush strokes, bright and cheerful.` },
+  { id: 'pixel', label: 'Pixel art', icon: '👾', prompt: subject => `Pixel art of ${subject}. 16-bit retro video game style, crisp square pixels, limited bright palette.` },
+  { id: 'sticker', label: 'Sticker', icon: '⭐', prompt: subject => `A cute die-cut sticker of ${subject}. Bold outlines, flat bright colors, thick white border, plain background.` },
+];
+
+function characterLook(char: CharacterInfo) {
+  if (!char.accessories?.length) return char.visualDescriptor;
+  return `${char.visualDescriptor} Wears ${char.accessories.join(' and ')}.`;
+}
+
+// Functions Sadie can call during a live conversation; agents may allow only some
+const sadieTools = (characters: Record<string, CharacterInfo>, char: CharacterInfo): FunctionDeclaration[] => ([
+  {
+    name: 'setMood',
+    description: 'Change your own mood. Your picture and speaking style change to match.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        mood: { type: Type.STRING, enum: Object.keys(characterMoods(char)), description: 'The new mood.' }
+      },
+      required: ['mood']
+    }
+  },
+  {
+    name: 'setCharacter',
+    description: 'Turn into a different character when the user asks you to be someone else.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        character: {
+          type: Type.STRING,
+          enum: Object.keys(characters),
+          description: 'The character id: ' + Object.entries(characters).map(([k, v]) => `${k} (${v.name})`).join(', ')
+        }
+      },
+      required: ['character']
+    }
+  },
+  {
+    name: 'generatePicture',
+    description: 'Draw a picture for the user and show it on screen.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        prompt: { type: Type.STRING, description: 'A detailed, kid-friendly description of the picture to draw.' }
+      },
+      required: ['prompt']
     }
   }
-  return buffer;
+] as FunctionDeclaration[]).filter(t => !char.tools || char.tools.includes(t.name as AgentTool));
+
+type ToolHandler = (name: string, args: Record<string, any>) => Promise<Record<string, unknown>>;
+
+// --- Helpers ---
+
+const ERROR_ICONS: Record<GenAIErrorKind, string> = {
+  quota: '⏳', safety: '🛡️', network: '📡', auth: '🔑', unavailable: '😴', empty: '🤔', cancelled: '✋', unknown: '⚠️'
+};
+
+// One kid-friendly line for any failure, so every tool reports errors the same way
+function errorNotice(e: unknown) {
+  const limit = limitMessage(e);
+  if (limit) return `⏰ ${limit}`;
+  const err = toGenAIError(e);
+  if (err.kind !== 'safety' && err.kind !== 'cancelled') console.error(e);
+  return `${ERROR_ICONS[err.kind]} ${err.friendlyMessage}`;
 }
 
-function createBlob(data: Float32Array): { data: string; mimeType: string } {
-  const l = data.length;
-  const int16 = new Int16Array(l);
-  for (let i = 0; i < l; i++) {
-    int16[i] = data[i] * 32768;
+const isCancelled = (e: unknown) => toGenAIError(e).kind === 'cancelled';
+
+// Saves tool output to the gallery; a failed save never breaks the tool
+async function keepInGallery(asset: Omit<NewGalleryAsset, 'blob'> & { blob?: Blob; dataUrl?: string }) {
+  try {
+    const { dataUrl, ...rest } = asset;
+    const blob = asset.blob || await dataUrlToBlob(dataUrl || '');
+    await saveAsset({ ...rest, blob });
+  } catch (e) {
+    console.warn('Could not save to gallery', e);
   }
-  return {
-    data: encode(new Uint8Array(int16.buffer)),
-    mimeType: 'audio/pcm;rate=16000',
-  };
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
 }
 
 // --- Components ---
@@ -128,18 +304,177 @@ const LiveAudioComponent = defineComponent({
   props: {
     initialMessage: { type: String, default: "Hello!" },
     voiceName: { type: String, default: 'Kore' },
-    systemInstruction: { type: String, default: 'You are a helpful assistant.' }
+    systemInstruction: { type: String, default: 'You are a helpful assistant.' },
+    quietThreshold: { type: Number, default: QUIET_THRESHOLD },
+    quietDuration: { type: Number, default: QUIET_DURATION },
+    extendedQuietDuration: { type: Number, default: EXTENDED_QUIET_DURATION },
+    checkInTimeout: { type: Number, default: CHECK_IN_TIMEOUT },
+    cameraFps: { type: Number, default: CAMERA_FPS },
+    tools: { type: Array as PropType<FunctionDeclaration[]>, default: () => [] },
+    toolHandler: { type: Function as PropType<ToolHandler>, default: undefined }
   },
-  emits: ['speaking-start', 'error'],
+  emits: ['speaking-start', 'speaking-end', 'interrupted', 'error', 'transcript', 'turn-complete', 'idle-close', 'limit-reached'],
   setup(props, { emit, expose }) {
     const isRecording = ref(false);
     const audioContexts = ref<{ input?: AudioContext; output?: AudioContext }>({});
     const volume = ref(0);
-    let session: Session | null = null;
+    const captions = ref<{ user: string; model: string }>({ user: '', model: '' });
+    const micPaused = ref(false);
+    const notice = ref('');
+    // Optional audio recording of the whole conversation, kept after the session ends
+    const recordAudio = ref(false);
+    const recording = shallowRef<ConversationTracks | null>(null);
+    const recordingUrl = ref('');
+    let recorder: ReturnType<typeof createConversationRecorder> | null = null;
+    // Output context time the recording started at
+    let recordStart = 0;
+    // Optional camera, streamed as still frames alongside the mic
+    const cameraOn = ref(false);
+    const cameraFacing = ref<'user' | 'environment'>('user');
+    const cameraFps = ref(props.cameraFps);
+    const cameraVideo = ref<HTMLVideoElement | null>(null);
+    const hasOtherCamera = ref(false);
+    let cameraStream: MediaStream | null = null;
+    let frameTimer: ReturnType<typeof setInterval> | undefined;
+    // Bumped on every start/stop so a slow getUserMedia can't revive a stopped camera
+    let cameraRequest = 0;
+    let session: LiveSession | null = null;
+    // Bumped whenever a session is replaced or stopped, so the old one's callbacks go quiet
+    let sessionGeneration = 0;
+    // Set while a conversation is running; swaps in a session with the current voice
+    let reconnect: (() => Promise<void>) | null = null;
+    let silenceTimer: ReturnType<typeof setInterval> | undefined;
+    let usageTimer: ReturnType<typeof setInterval> | undefined;
+    // Start of the talk time not yet counted against the daily limit
+    let usageMark = 0;
+
+    const flushUsage = async () => {
+      if (!usageMark) return;
+      const now = Date.now();
+      const seconds = Math.round((now - usageMark) / 100) / 10;
+      usageMark = now;
+      await recordUsage('liveSeconds', seconds);
+    };
     let nextStartTime = 0;
     let stream: MediaStream | null = null;
+    // Scheduled playback chunks, so an interruption can silence the rest of the reply
+    const activeSources = new Set<AudioBufferSourceNode>();
+
+    const recordTime = () => (audioContexts.value.output?.currentTime || 0) - recordStart;
+
+    const stopPlayback = () => {
+      const wasSpeaking = activeSources.size > 0;
+      if (wasSpeaking) recorder?.cutModel(recordTime());
+      activeSources.forEach(s => {
+        s.onended = null;
+        try { s.stop(); } catch { /* already stopped */ }
+      });
+      activeSources.clear();
+      nextStartTime = 0;
+      if (wasSpeaking) emit('speaking-end');
+    };
     
+    const finishRecording = () => {
+      if (!recorder) return;
+      if (!recorder.isEmpty()) {
+        const tracks = recorder.tracks();
+        recording.value = tracks;
+        recordingUrl.value = URL.createObjectURL(encodeWav([mixTracks([tracks.mic, tracks.model])], tracks.sampleRate));
+      }
+      recorder = null;
+    };
+
+    const clearRecording = () => {
+      if (recordingUrl.value) URL.revokeObjectURL(recordingUrl.value);
+      recordingUrl.value = '';
+      recording.value = null;
+    };
+
+    const downloadRecording = async (stems: boolean) => {
+      const tracks = recording.value;
+      if (!tracks) return;
+      const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+      if (!stems) {
+        downloadBlob(await (await fetch(recordingUrl.value)).blob(), `sadie-conversation-${stamp}.wav`);
+        return;
+      }
+      const wav = async (track: Float32Array) => new Uint8Array(await encodeWav([track], tracks.sampleRate).arrayBuffer());
+      downloadBlob(createZip([
+        { name: 'you.wav', data: await wav(tracks.mic) },
+        { name: 'sadie.wav', data: await wav(tracks.model) },
+      ]), `sadie-conversation-${stamp}-stems.zip`);
+    };
+
+    const stopCamera = () => {
+      cameraRequest++;
+      clearInterval(frameTimer);
+      cameraStream?.getTracks().forEach(t => t.stop());
+      cameraStream = null;
+      if (cameraVideo.value) cameraVideo.value.srcObject = null;
+    };
+
+    const sendFrame = () => {
+      const video = cameraVideo.value;
+      if (!session || !video?.videoWidth) return;
+      const scale = Math.min(1, CAMERA_FRAME_SIDE / Math.max(video.videoWidth, video.videoHeight));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      canvas.getContext('2d')!.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const data = canvas.toDataURL('image/jpeg', 0.7).split(',')[1];
+      session.sendRealtimeInput({ media: { data, mimeType: 'image/jpeg' } });
+    };
+
+    // Runs whenever the session, the toggle, the facing or the rate changes
+    const startCamera = async () => {
+      stopCamera();
+      if (!isRecording.value || !cameraOn.value) return;
+      const request = cameraRequest;
+      try {
+        const media = await navigator.mediaDevices.getUserMedia({ video: { facingMode: cameraFacing.value } });
+        if (request !== cameraRequest) {
+          media.getTracks().forEach(t => t.stop());
+          return;
+        }
+        cameraStream = media;
+        const devices = await navigator.mediaDevices.enumerateDevices();
+        hasOtherCamera.value = devices.filter(d => d.kind === 'videoinput').length > 1;
+        if (cameraVideo.value) {
+          cameraVideo.value.srcObject = media;
+          await cameraVideo.value.play().catch(() => {});
+        }
+        frameTimer = setInterval(sendFrame, 1000 / cameraFps.value);
+      } catch (e) {
+        console.error(e);
+        cameraOn.value = false;
+        notice.value = "Sadie couldn't open the camera. Check that it's allowed for this page.";
+      }
+    };
+    watch([isRecording, cameraOn, cameraFacing, cameraFps], startCamera);
+
+    // The character, mood or agent can change mid-conversation: a new voice or
+    // new tools need a new session, anything else is told to the open one
+    watch(() => [props.voiceName, props.systemInstruction, JSON.stringify(props.tools)], ([voiceName, instruction, tools], [oldVoiceName, , oldTools]) => {
+      if (!session || !reconnect) return;
+      if (voiceName !== oldVoiceName || tools !== oldTools) reconnect();
+      else session.sendClientContent({ turns: [{ role: 'user', parts: [{ text: instructionUpdate(instruction) }] }], turnComplete: false });
+    });
+
+    const switchCamera = () => {
+      cameraFacing.value = cameraFacing.value === 'user' ? 'environment' : 'user';
+    };
+
     const cleanup = () => {
+      sessionGeneration++;
+      reconnect = null;
+      stopPlayback();
+      stopCamera();
+      finishRecording();
+      clearInterval(silenceTimer);
+      clearInterval(usageTimer);
+      flushUsage();
+      usageMark = 0;
+      micPaused.value = false;
       isRecording.value = false;
       session?.close();
       stream?.getTracks().forEach(t => t.stop());
@@ -148,17 +483,65 @@ const LiveAudioComponent = defineComponent({
       session = null;
     };
 
+    // Tool calls the server cancelled (e.g. after an interruption) get no response
+    const cancelledCalls = new Set<string>();
+
+    const onToolCall = async (msg: LiveServerMessage) => {
+      // A tool can change the voice, which replaces the session that asked
+      const caller = session;
+      const calls = msg.toolCall?.functionCalls || [];
+      const functionResponses: FunctionResponse[] = await Promise.all(calls.map(async (fc) => {
+        try {
+          if (!props.toolHandler) throw new Error('Tools are not available');
+          const response = await props.toolHandler(fc.name || '', fc.args || {});
+          return { id: fc.id, name: fc.name, response };
+        } catch (e: any) {
+          return { id: fc.id, name: fc.name, response: { error: e.message || 'Tool failed' } };
+        }
+      }));
+      const pending = functionResponses.filter(r => !r.id || !cancelledCalls.has(r.id));
+      if (pending.length && caller === session) session?.sendToolResponse({ functionResponses: pending });
+    };
+
+    const onTranscription = (role: TranscriptRole, text?: string) => {
+      if (!text) return;
+      // A new user utterance starts a fresh pair of captions
+      if (role === 'user' && captions.value.model) captions.value = { user: '', model: '' };
+      captions.value[role] += text;
+      emit('transcript', role, text);
+    };
+
+    const checkTimeLimit = async () => {
+      await flushUsage();
+      try {
+        await checkAllowance('sadie', 'liveSeconds');
+      } catch (e) {
+        notice.value = errorNotice(e);
+        emit('limit-reached');
+        cleanup();
+      }
+    };
+
     const startSession = async () => {
       if (isRecording.value) return;
+      captions.value = { user: '', model: '' };
+      notice.value = '';
+      clearRecording();
+      try {
+        await checkAllowance('sadie', 'liveSeconds');
+      } catch (e) {
+        notice.value = errorNotice(e);
+        return;
+      }
       
       try {
-        const inputCtx = new (window.AudioContext || window.webkitAudioContext)({ sampleRate: 16000 });
-        const outputCtx = new (window.AudioContext || window.webkitAudioContext)({ sampleRate: 24000 });
+        // Mic runs at the device's native rate; capture resamples to 16 kHz
+        const inputCtx = new (window.AudioContext || window.webkitAudioContext)();
+        const outputCtx = new (window.AudioContext || window.webkitAudioContext)({ sampleRate: MODEL_SAMPLE_RATE });
         audioContexts.value = { input: inputCtx, output: outputCtx };
         
-        stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
         const source = inputCtx.createMediaStreamSource(stream);
-        const scriptProcessor = inputCtx.createScriptProcessor(4096, 1, 1);
         
         // Volume visualization
         const analyser = inputCtx.createAnalyser();
@@ -174,64 +557,164 @@ const LiveAudioComponent = defineComponent({
         };
         updateVolume();
 
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        
         // Use promise pattern to avoid race condition in onopen
-        const sessionPromise = ai.live.connect({
-          model: DEFAULT_DIALOG_MODEL,
-          config: {
-            responseModalities: [Modality.AUDIO],
-            speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: props.voiceName } } },
-            systemInstruction: props.systemInstruction,
-          },
-          callbacks: {
-            onopen: () => {
-              isRecording.value = true;
-              scriptProcessor.onaudioprocess = (e) => {
-                const inputData = e.inputBuffer.getChannelData(0);
-                const pcmBlob = createBlob(inputData);
-                sessionPromise.then(s => s.sendRealtimeInput({ media: pcmBlob }));
-              };
-              source.connect(scriptProcessor);
-              scriptProcessor.connect(inputCtx.destination);
-              sessionPromise.then(s => s.sendClientContent({ turns: [{ parts: [{ text: props.initialMessage }] }], turnComplete: true }));
-            },
-            onmessage: async (msg: LiveServerMessage) => {
-              const audioData = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
-              if (audioData) {
-                emit('speaking-start');
-                nextStartTime = Math.max(nextStartTime, outputCtx.currentTime);
-                const audioBuffer = await decodeAudioData(decode(audioData), outputCtx, 24000, 1);
-                const source = outputCtx.createBufferSource();
-                source.buffer = audioBuffer;
-                source.connect(outputCtx.destination);
-                source.start(nextStartTime);
-                nextStartTime += audioBuffer.duration;
-              }
-            },
-            onerror: (e) => {
-              console.error(e);
-              emit('error', e);
+        let sessionPromise: Promise<LiveSession>;
+        // While paused for silence, keep the last few frames so the start of the next word isn't lost
+        let preroll: Float32Array[] = [];
+        await createMicCapture(inputCtx, source, (pcm) => {
+          if (!isRecording.value) return;
+          // Recorded even while paused, so the file has everything that was said
+          recorder?.addMic(pcm);
+          if (micPaused.value) {
+            preroll = [...preroll.slice(1 - PREROLL_FRAMES), pcm];
+            return;
+          }
+          sessionPromise.then(s => s.sendRealtimeInput({ media: createBlob(pcm) }));
+        });
+
+        const silence = createSilenceManager({
+          threshold: props.quietThreshold,
+          quietDuration: props.quietDuration,
+          extendedQuietDuration: props.extendedQuietDuration,
+          closeDuration: props.checkInTimeout,
+        });
+        const checkSilence = () => {
+          if (!isRecording.value) return;
+          switch (silence.update(volume.value, activeSources.size > 0)) {
+            case 'pause':
+              micPaused.value = true;
+              break;
+            case 'resume': {
+              micPaused.value = false;
+              const frames = preroll;
+              preroll = [];
+              sessionPromise.then(s => frames.forEach(pcm => s.sendRealtimeInput({ media: createBlob(pcm) })));
+              break;
+            }
+            case 'check-in':
+              sessionPromise.then(s => s.sendClientContent({ turns: [{ parts: [{ text: CHECK_IN_PROMPT }] }], turnComplete: true }));
+              break;
+            case 'close':
+              emit('idle-close');
               cleanup();
+              break;
+          }
+        };
+
+        const connect = (greeting: string) => {
+          const generation = ++sessionGeneration;
+          const current = () => generation === sessionGeneration;
+          sessionPromise = connectLive({
+            config: {
+              responseModalities: [Modality.AUDIO],
+              speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: props.voiceName } } },
+              systemInstruction: props.systemInstruction,
+              tools: props.tools.length ? [{ functionDeclarations: props.tools }] : undefined,
+              inputAudioTranscription: {},
+              outputAudioTranscription: {},
             },
-            onclose: () => cleanup()
+            callbacks: {
+              onopen: () => {
+                if (!current()) return;
+                // A reconnect keeps the mic, timers and recording of the first session
+                if (!isRecording.value) {
+                  isRecording.value = true;
+                  if (recordAudio.value) {
+                    recorder = createConversationRecorder();
+                    recordStart = outputCtx.currentTime;
+                  }
+                  silenceTimer = setInterval(checkSilence, 250);
+                  usageMark = Date.now();
+                  usageTimer = setInterval(checkTimeLimit, 10000);
+                }
+                sessionPromise.then(s => s.sendClientContent({ turns: [{ parts: [{ text: greeting }] }], turnComplete: true }));
+              },
+              onmessage: async (msg: LiveServerMessage) => {
+                if (!current()) return;
+                msg.toolCallCancellation?.ids?.forEach(id => cancelledCalls.add(id));
+                if (msg.toolCall) onToolCall(msg);
+                if (msg.serverContent?.interrupted) {
+                  stopPlayback();
+                  emit('interrupted');
+                }
+                const audioData = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+                if (audioData) {
+                  if (!activeSources.size) emit('speaking-start');
+                  nextStartTime = Math.max(nextStartTime, outputCtx.currentTime);
+                  const audioBuffer = await decodeAudioData(decode(audioData), outputCtx, MODEL_SAMPLE_RATE, 1);
+                  const source = outputCtx.createBufferSource();
+                  source.buffer = audioBuffer;
+                  source.connect(outputCtx.destination);
+                  source.onended = () => {
+                    activeSources.delete(source);
+                    if (!activeSources.size) emit('speaking-end');
+                  };
+                  activeSources.add(source);
+                  source.start(nextStartTime);
+                  recorder?.addModel(audioBuffer.getChannelData(0), nextStartTime - recordStart);
+                  nextStartTime += audioBuffer.duration;
+                }
+                onTranscription('user', msg.serverContent?.inputTranscription?.text);
+                onTranscription('model', msg.serverContent?.outputTranscription?.text);
+                if (msg.serverContent?.turnComplete) emit('turn-complete');
+              },
+              onerror: (e) => {
+                if (!current()) return;
+                console.error(e);
+                notice.value = errorNotice(e);
+                emit('error', e);
+                cleanup();
+              },
+              onclose: () => {
+                if (current()) cleanup();
+              }
+            }
+          });
+        };
+
+        reconnect = async () => {
+          const old = session;
+          session = null;
+          stopPlayback();
+          connect(SESSION_CHANGE_PROMPT);
+          const pending = sessionPromise;
+          const generation = sessionGeneration;
+          old?.close();
+          try {
+            const next = await pending;
+            // Another change or a stop may have come in while this one was opening
+            if (generation === sessionGeneration) session = next;
+            else next.close();
+          } catch (err) {
+            if (generation !== sessionGeneration) return;
+            notice.value = errorNotice(err);
+            cleanup();
           }
-        });
+        };
 
+        connect(props.initialMessage);
         session = await sessionPromise;
 
       } catch (err) {
-        console.error(err);
+        notice.value = errorNotice(err);
         cleanup();
       }
     };
 
-    onUnmounted(cleanup);
+    onUnmounted(() => {
+      cleanup();
+      clearRecording();
+    });
     expose({ startSession, stopSession: cleanup });
 
-    return { isRecording, startSession, cleanup, volume };
+    return {
+      isRecording, startSession, cleanup, volume, captions, micPaused, notice,
+      recordAudio, recording, recordingUrl, downloadRecording, clearRecording,
+      cameraOn, cameraFacing, cameraFps, cameraVideo, hasOtherCamera, switchCamera, cameraFpsOptions: CAMERA_FPS_OPTIONS
+    };
   },
   template: `
+    <div class="space-y-3">
     <div class="flex items-center gap-4">
       <button @click="isRecording ? cleanup() : startSession()" 
         :class="['w-16 h-16 rounded-full flex items-center justify-center transition-all duration-300 shadow-lg', isRecording ? 'bg-red-500 scale-110' : 'bg-purple text-white hover:bg-purple/90']">
@@ -243,12 +726,61 @@ const LiveAudioComponent = defineComponent({
         </div>
       </button>
       <div class="text-sm font-medium text-slate-600">
-        {{ isRecording ? 'Listening...' : 'Tap to Chat' }}
+        {{ !isRecording ? 'Tap to Chat' : micPaused ? 'Waiting for you...' : 'Listening...' }}
+      </div>
+      <label class="ml-auto flex items-center gap-1 text-xs text-slate-500 cursor-pointer" title="Let Sadie see through the camera">
+        <input type="checkbox" v-model="cameraOn" />
+        <span>📷 Show Sadie</span>
+      </label>
+      <label class="flex items-center gap-1 text-xs text-slate-500" :class="isRecording ? 'opacity-50' : 'cursor-pointer'" title="Save this conversation as a sound file">
+        <input type="checkbox" v-model="recordAudio" :disabled="isRecording" />
+        <span :class="isRecording && recordAudio ? 'text-red-500 animate-pulse' : ''">⏺ Record</span>
+      </label>
+    </div>
+    <div v-show="cameraOn && isRecording" class="relative rounded-xl overflow-hidden bg-black">
+      <video ref="cameraVideo" autoplay playsinline muted class="w-full max-h-64 object-contain" :class="cameraFacing === 'user' ? '-scale-x-100' : ''"></video>
+      <div class="absolute top-2 left-2 flex items-center gap-1 px-2 py-1 rounded-full bg-red-500 text-white text-xs font-bold">
+        <span class="w-2 h-2 rounded-full bg-white animate-pulse"></span> Sadie can see you
+      </div>
+      <div class="absolute bottom-2 right-2 flex gap-2 text-xs">
+        <select v-model.number="cameraFps" class="px-2 py-1 rounded-lg bg-white/80" title="Pictures sent each second">
+          <option v-for="fps in cameraFpsOptions" :key="fps" :value="fps">{{ fps }} / sec</option>
+        </select>
+        <button v-if="hasOtherCamera" @click="switchCamera" class="px-2 py-1 rounded-lg bg-white/80 hover:bg-white">
+          🔄 {{ cameraFacing === 'user' ? 'Back' : 'Front' }} camera
+        </button>
       </div>
     </div>
+    <div v-if="recordingUrl && !isRecording" class="p-3 rounded-xl bg-white/60 space-y-2">
+      <audio :src="recordingUrl" controls class="w-full h-8"></audio>
+      <div class="flex gap-2 text-xs">
+        <button @click="downloadRecording(false)" class="px-2 py-1 rounded-lg bg-white/80 hover:bg-white">⬇ Save WAV</button>
+        <button @click="downloadRecording(true)" class="px-2 py-1 rounded-lg bg-white/80 hover:bg-white" title="You and Sadie as separate tracks">⬇ Save stems</button>
+        <button @click="clearRecording" class="ml-auto px-2 py-1 rounded-lg text-red-500 hover:bg-red-50">Delete</button>
+      </div>
+    </div>
+    <div v-if="notice" class="p-3 rounded-xl bg-purple/10 text-purple text-sm font-medium">{{ notice }}</div>
+    <div v-if="captions.user || captions.model" aria-live="polite" class="p-3 rounded-xl bg-slate-800/80 text-white text-sm leading-snug space-y-1">
+      <p v-if="captions.user"><span class="font-bold text-blue">You:</span> {{ captions.user }}</p>
+      <p v-if="captions.model"><span class="font-bold text-purple">Sadie:</span> {{ captions.model }}</p>
+    </div>
+    </div>
   `
 });
 
+interface CachedAvatar {
+  dataUrl: string;
+  // The character look the image was made from; a changed look invalidates it
+  look: string;
+  createdAt: number;
+}
+
+async function clearAvatars(character: string, keep: string[] = []) {
+  const prefix = `${character}|`;
+  const entries = await dbEntries<CachedAvatar>('avatars');
+  await Promise.all(entries.filter(([k]) => k.startsWith(prefix) && !keep.includes(k)).map(([k]) => dbDelete('avatars', k)));
+}
+
 const CharacterImage = defineComponent({
   props: {
     character: { type: String, required: true },
@@ -258,38 +790,86 @@ const CharacterImage = defineComponent({
     const imageUrl = ref('');
     const isLoading = ref(false);
     const error = ref('');
+    const hasReference = ref(false);
+    let requestId = 0;
+    let controller: AbortController | null = null;
+
+    const charInfo = () => allCharacters.value[props.character] || CHARACTER_ATTRIBUTES['dog'];
+    const avatarKey = (mood: string) => `${props.character}|${mood || 'neutral'}`;
+    // The approved image every mood variant is edited from
+    const referenceKey = () => `${props.character}|reference`;
+
+    const readAvatar = async (key: string, look: string) => {
+      const cached = await dbGet<CachedAvatar>('avatars', key).catch(() => undefined);
+      return cached?.look === look ? cached : undefined;
+    };
+
+    const generate = async (force = false) => {
+      const id = ++requestId;
+      controller?.abort();
+      controller = new AbortController();
+      const { signal } = controller;
+      const look = characterLook(charInfo());
+      const moodInfo = characterMoods(charInfo())[props.mood] || { visualDescriptor: 'neutral expression' };
+      const key = avatarKey(props.mood);
 
-    const generate = async () => {
       isLoading.value = true;
       error.value = '';
-      imageUrl.value = '';
-      
-      const charInfo = CHARACTER_ATTRIBUTES[props.character] || CHARACTER_ATTRIBUTES['dog'];
-      const moodInfo = MOOD_ATTRIBUTES[props.mood] || { visualDescriptor: 'neutral expression' };
-      
-      const prompt = `A cute claymation style 3d render of ${charInfo.visualDescriptor}. The character is ${moodInfo.visualDescriptor}. Simple shapes, vibrant colors, clean white background, soft lighting, depth of field. High quality, miniature aesthetic.`;
-
       try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        const resp = await ai.models.generateImages({
-          model: 'imagen-4.0-generate-001',
-          prompt,
-          config: { numberOfImages: 1, aspectRatio: '1:1', outputMimeType: 'image/jpeg' }
-        });
-        if (resp.generatedImages?.[0]?.image?.imageBytes) {
-          imageUrl.value = `data:image/jpeg;base64,${resp.generatedImages[0].image.imageBytes}`;
+        const reference = await readAvatar(referenceKey(), look);
+        const cached = force ? undefined : await readAvatar(key, look);
+        if (id !== requestId) return;
+        hasReference.value = !!reference;
+        if (cached) {
+          imageUrl.value = cached.dataUrl;
+          return;
+        }
+
+        imageUrl.value = '';
+        await checkAllowance('sadie', 'images');
+        let dataUrl: string;
+        if (reference) {
+          dataUrl = await editImage({
+            image: reference.dataUrl,
+            instruction: `Keep exactly the same character: same species, colors, proportions, accessories and claymation style. Change only the expression and pose so the character is ${moodInfo.visualDescriptor}. Clean white background.`
+          }, { tool: 'characters', signal });
+        } else {
+          [dataUrl] = await generateImages({
+            prompt: claymationPrompt(`${look}. The character is ${moodInfo.visualDescriptor}`, 'clean white background, ')
+          }, { tool: 'characters', signal });
         }
+        recordUsage('images');
+        await dbPut<CachedAvatar>('avatars', key, { dataUrl, look, createdAt: Date.now() }).catch(e => console.warn('Could not cache avatar', e));
+        if (id === requestId) imageUrl.value = dataUrl;
       } catch (e: any) {
-        error.value = e.message || 'Failed to generate';
+        if (id === requestId && !isCancelled(e)) error.value = errorNotice(e);
       } finally {
-        isLoading.value = false;
+        if (id === requestId) isLoading.value = false;
       }
     };
 
-    onMounted(generate);
-    watch(() => [props.character, props.mood], generate);
+    // Approve the current image as this character's look for every mood. Moods
+    // drawn before this came from text and may show a different creature, so
+    // they are dropped and redrawn from the approved picture.
+    const keepLook = async () => {
+      if (!imageUrl.value) return;
+      await clearAvatars(props.character, [avatarKey(props.mood)]);
+      await dbPut<CachedAvatar>('avatars', referenceKey(), { dataUrl: imageUrl.value, look: characterLook(charInfo()), createdAt: Date.now() });
+      hasReference.value = true;
+    };
+
+    // Forget the approved look and every cached mood so the next image starts fresh
+    const newLook = async () => {
+      await clearAvatars(props.character);
+      hasReference.value = false;
+      generate(true);
+    };
+
+    onMounted(() => generate());
+    onUnmounted(() => controller?.abort());
+    watch(() => [props.character, props.mood, characterLook(charInfo())], () => generate());
 
-    return { imageUrl, isLoading, error, generate };
+    return { imageUrl, isLoading, error, hasReference, generate, keepLook, newLook };
   },
   template: `
     <div class="relative aspect-square rounded-2xl overflow-hidden bg-slate-100 shadow-inner group">
@@ -298,220 +878,1368 @@ const CharacterImage = defineComponent({
       </div>
       <div v-if="error" class="absolute inset-0 flex items-center justify-center p-4 text-center text-red-500 text-sm bg-red-50">
         {{ error }}
-        <button @click="generate" class="block mt-2 text-xs underline">Retry</button>
+        <button @click="generate(true)" class="block mt-2 text-xs underline">Retry</button>
       </div>
       <img v-if="imageUrl" :src="imageUrl" class="w-full h-full object-cover transition-transform duration-700 group-hover:scale-105" />
       <div v-else class="w-full h-full flex items-center justify-center text-4xl">✨</div>
+      <div v-if="imageUrl && !isLoading" class="absolute bottom-3 left-3 right-3 flex gap-2 justify-end opacity-0 group-hover:opacity-100 transition-opacity text-xs">
+        <button v-if="!hasReference" @click="keepLook" class="px-3 py-1 rounded-full bg-white/90 shadow font-bold text-purple">👍 Keep this look</button>
+        <button v-else @click="newLook" class="px-3 py-1 rounded-full bg-white/90 shadow text-slate-600">✨ New look</button>
+        <button @click="generate(true)" class="px-3 py-1 rounded-full bg-white/90 shadow text-slate-600">🔄 Regenerate</button>
+      </div>
     </div>
   `
 });
 
-// --- Feature Components ---
+// Preview clips are cached per voice and speaking style, so each is only made once
+interface CachedVoicePreview {
+  pcm: string;
+  createdAt: number;
+}
 
-const StudioTool = defineComponent({
-  setup() {
-    const prompt = ref('');
-    const aspectRatio = ref('1:1');
-    const result = ref('');
-    const loading = ref(false);
+const VOICE_PREVIEW_TEXT = "Hi! I'm Sadie. Let's create something amazing!";
 
-    const generate = async () => {
-      if (!prompt.value) return;
-      loading.value = true;
-      result.value = '';
+const VoicePicker = defineComponent({
+  props: {
+    characterId: { type: String, required: true },
+    character: { type: Object as PropType<CharacterInfo>, required: true },
+    // The current mood's voiceInstruction; previews use it too
+    styleInstruction: { type: String, default: '' },
+  },
+  setup(props) {
+    const open = ref(false);
+    const previewing = ref('');
+    const notice = ref('');
+    const current = computed(() => characterVoice(props.characterId, props.character));
+    const defaultVoice = computed(() => props.character.voiceName || DEFAULT_VOICE);
+    const currentStyle = computed(() => VOICES.find(v => v.name === current.value)?.style || '');
+
+    let ctx: AudioContext | null = null;
+    let playing: AudioBufferSourceNode | null = null;
+    let controller: AbortController | null = null;
+
+    const stop = () => {
+      playing?.stop();
+      playing = null;
+      previewing.value = '';
+    };
+
+    const preview = async (voiceName: string) => {
+      stop();
+      controller?.abort();
+      controller = new AbortController();
+      previewing.value = voiceName;
+      notice.value = '';
+      const key = `${voiceName}|${props.styleInstruction}`;
       try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        const resp = await ai.models.generateImages({
-          model: 'imagen-4.0-generate-001',
-          prompt: prompt.value,
-          config: { numberOfImages: 1, aspectRatio: aspectRatio.value, outputMimeType: 'image/jpeg' }
-        });
-        if (resp.generatedImages?.[0]) {
-          result.value = `data:image/jpeg;base64,${resp.generatedImages[0].image.imageBytes}`;
+        let pcm = (await dbGet<CachedVoicePreview>('voices', key).catch(() => undefined))?.pcm;
+        if (!pcm) {
+          await checkAllowance('sadie', 'liveSeconds');
+          pcm = await speak({ text: VOICE_PREVIEW_TEXT, voiceName, style: props.styleInstruction }, { tool: 'sadie', signal: controller.signal });
+          // Counted as talk time: 16-bit samples at the model's rate
+          recordUsage('liveSeconds', Math.round(decode(pcm).length / 2 / MODEL_SAMPLE_RATE * 10) / 10);
+          await dbPut<CachedVoicePreview>('voices', key, { pcm, createdAt: Date.now() }).catch(e => console.warn('Could not cache voice preview', e));
         }
+        if (previewing.value !== voiceName) return;
+        ctx ??= new (window.AudioContext || window.webkitAudioContext)({ sampleRate: MODEL_SAMPLE_RATE });
+        const buffer = await decodeAudioData(decode(pcm), ctx, MODEL_SAMPLE_RATE, 1);
+        const source = ctx.createBufferSource();
+        source.buffer = buffer;
+        source.connect(ctx.destination);
+        source.onended = () => {
+          if (playing === source) stop();
+        };
+        playing = source;
+        source.start();
       } catch (e) {
-        console.error(e);
-        alert('Generation failed');
-      } finally {
-        loading.value = false;
+        if (!isCancelled(e)) notice.value = errorNotice(e);
+        previewing.value = '';
       }
     };
 
-    return { prompt, aspectRatio, result, loading, generate };
+    const choose = (voiceName: string) => setVoiceOverride(props.characterId, voiceName === defaultVoice.value ? null : voiceName);
+
+    onUnmounted(() => {
+      stop();
+      controller?.abort();
+      ctx?.close();
+    });
+
+    return { open, previewing, notice, current, currentStyle, defaultVoice, preview, stop, choose, VOICES };
   },
   template: `
-    <div class="space-y-4 h-full flex flex-col">
-      <div class="flex gap-2">
-        <select v-model="aspectRatio" class="p-3 rounded-xl border border-purple/20 bg-white/50 focus:outline-none">
-          <option value="1:1">1:1 Square</option>
-          <option value="16:9">16:9 Landscape</option>
-          <option value="9:16">9:16 Portrait</option>
-          <option value="4:3">4:3 Standard</option>
-          <option value="3:4">3:4 Portrait</option>
-        </select>
-        <input v-model="prompt" placeholder="Describe your image..." class="flex-1 p-3 rounded-xl border border-purple/20 bg-white/50 focus:outline-none focus:border-purple" @keyup.enter="generate">
-        <button @click="generate" :disabled="loading" class="px-6 py-3 bg-purple text-white rounded-xl font-bold hover:bg-purple/90 disabled:opacity-50">
-          {{ loading ? '...' : 'Create' }}
-        </button>
-      </div>
-      <div class="flex-1 rounded-2xl bg-slate-50/50 border border-white flex items-center justify-center overflow-hidden relative">
-         <img v-if="result" :src="result" class="max-w-full max-h-full object-contain shadow-lg rounded-lg" />
-         <div v-else-if="loading" class="animate-pulse text-purple text-lg font-bold">Generating artwork...</div>
-         <div v-else class="text-slate-400">Enter a prompt to start</div>
+    <div class="space-y-2">
+      <button @click="open = !open" class="w-full flex items-center gap-2 p-2 rounded-lg bg-white/50 border border-slate-200 text-sm text-left">
+        🎙️ <span class="font-bold">{{ current }}</span> <span class="text-slate-500">{{ currentStyle }}</span>
+        <span v-if="current !== defaultVoice" class="text-xs text-purple">(your pick)</span>
+        <span class="ml-auto text-slate-400">{{ open ? '▴' : '▾' }}</span>
+      </button>
+      <div v-if="open" class="max-h-56 overflow-y-auto rounded-lg bg-white/60 divide-y divide-white">
+        <div v-for="voice in VOICES" :key="voice.name" class="flex items-center gap-2 px-2 py-1 text-sm" :class="voice.name === current ? 'bg-purple/10' : ''">
+          <button @click="previewing === voice.name ? stop() : preview(voice.name)" :title="'Hear ' + voice.name" class="w-7 h-7 rounded-full bg-white hover:bg-purple/10">
+            {{ previewing === voice.name ? '■' : '▶' }}
+          </button>
+          <button @click="choose(voice.name)" class="flex-1 text-left">
+            <span class="font-medium">{{ voice.name }}</span> <span class="text-slate-500">{{ voice.style }}</span>
+            <span v-if="voice.name === defaultVoice" class="text-xs text-slate-400">· default</span>
+          </button>
+          <span v-if="voice.name === current" class="text-purple">✓</span>
+        </div>
       </div>
+      <div v-if="notice" class="text-xs text-purple">{{ notice }}</div>
     </div>
   `
 });
 
-const EditorTool = defineComponent({
-  setup() {
-    const prompt = ref('');
-    const imageFile = ref<File | null>(null);
-    const imagePreview = ref('');
-    const result = ref('');
-    const loading = ref(false);
-
-    const onFileChange = (e: Event) => {
-      const file = (e.target as HTMLInputElement).files?.[0];
-      if (file) {
-        imageFile.value = file;
-        const reader = new FileReader();
-        reader.onload = (e) => imagePreview.value = e.target?.result as string;
-        reader.readAsDataURL(file);
-      }
-    };
-
-    const edit = async () => {
-      if (!prompt.value || !imagePreview.value) return;
-      loading.value = true;
-      try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        const base64Data = imagePreview.value.split(',')[1];
-        
-        // Using generateContent for editing with gemini-2.5-flash-image ("Nano Banana")
-        const resp = await ai.models.generateContent({
-          model: 'gemini-2.5-flash-image',
-          contents: {
-            parts: [
-              { inlineData: { mimeType: 'image/jpeg', data: base64Data } },
-              { text: prompt.value }
-            ]
-          }
-        });
+const TranscriptPanel = defineComponent({
+  props: {
+    turns: { type: Array as () => TranscriptTurn[], required: true },
+    characterName: { type: String, default: 'Sadie' },
+  },
+  emits: ['clear'],
+  setup(props) {
+    const scroller = ref<HTMLElement>();
 
-        // Find image in response
-        let foundImage = false;
-        for (const part of resp.candidates?.[0]?.content?.parts || []) {
-           if (part.inlineData) {
-             result.value = `data:image/png;base64,${part.inlineData.data}`;
-             foundImage = true;
-             break;
-           }
-        }
-        if (!foundImage && resp.text) {
-           alert('Model returned text instead of image: ' + resp.text);
-        }
+    watch(() => props.turns, async () => {
+      await nextTick();
+      if (scroller.value) scroller.value.scrollTop = scroller.value.scrollHeight;
+    }, { deep: true });
 
-      } catch (e) {
-        console.error(e);
-        alert('Edit failed');
-      } finally {
-        loading.value = false;
+    const exportAs = (format: 'txt' | 'json') => {
+      const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+      if (format === 'json') {
+        downloadBlob(new Blob([transcriptToJson(props.turns)], { type: 'application/json' }), `sadie-transcript-${stamp}.json`);
+      } else {
+        const text = transcriptToText(props.turns, { user: 'You', model: props.characterName });
+        downloadBlob(new Blob([text], { type: 'text/plain' }), `sadie-transcript-${stamp}.txt`);
       }
     };
 
-    return { prompt, onFileChange, imagePreview, result, loading, edit };
+    return { scroller, exportAs };
   },
   template: `
-    <div class="h-full flex flex-col space-y-4">
-      <div class="flex gap-4 p-4 bg-white/40 rounded-xl">
-        <div class="w-1/3 space-y-2">
-           <label class="block text-sm font-bold text-slate-600">Original Image</label>
-           <div class="relative aspect-square bg-slate-100 rounded-lg overflow-hidden border border-dashed border-slate-300 flex items-center justify-center cursor-pointer hover:bg-slate-50">
-             <input type="file" accept="image/*" @change="onFileChange" class="absolute inset-0 opacity-0 cursor-pointer" />
-             <img v-if="imagePreview" :src="imagePreview" class="w-full h-full object-cover" />
-             <span v-else class="text-slate-400 text-sm">Upload</span>
-           </div>
-        </div>
-        <div class="flex-1 space-y-2 flex flex-col">
-           <label class="block text-sm font-bold text-slate-600">Instructions</label>
-           <textarea v-model="prompt" class="flex-1 p-3 rounded-lg border border-purple/20 bg-white/80 resize-none focus:outline-none" placeholder="e.g., Make it look like a sketch, remove the background..."></textarea>
-           <button @click="edit" :disabled="loading || !imagePreview" class="w-full py-3 bg-purple text-white rounded-lg font-bold hover:bg-purple/90 disabled:opacity-50">
-             {{ loading ? 'Editing...' : 'Apply Magic' }}
-           </button>
+    <div class="glass p-4 rounded-2xl space-y-3">
+      <div class="flex items-center justify-between">
+        <h3 class="text-sm font-bold text-slate-600 uppercase tracking-wider">Transcript</h3>
+        <div class="flex gap-2 text-xs">
+          <button @click="exportAs('txt')" :disabled="!turns.length" class="px-2 py-1 rounded-lg bg-white/60 hover:bg-white disabled:opacity-40">Export TXT</button>
+          <button @click="exportAs('json')" :disabled="!turns.length" class="px-2 py-1 rounded-lg bg-white/60 hover:bg-white disabled:opacity-40">Export JSON</button>
+          <button @click="$emit('clear')" :disabled="!turns.length" class="px-2 py-1 rounded-lg text-red-500 hover:bg-red-50 disabled:opacity-40">Clear</button>
         </div>
       </div>
-      <div class="flex-1 bg-slate-50/50 rounded-xl border border-white flex items-center justify-center p-4 overflow-hidden">
-        <img v-if="result" :src="result" class="max-w-full max-h-full object-contain rounded-lg shadow-lg" />
-        <div v-else class="text-slate-400">{{ loading ? 'Processing pixel magic...' : 'Result will appear here' }}</div>
+      <div ref="scroller" class="max-h-64 overflow-y-auto space-y-2 text-sm">
+        <div v-if="!turns.length" class="text-slate-400">Your conversation will show up here.</div>
+        <div v-for="(turn, i) in turns" :key="i" class="flex" :class="turn.role === 'user' ? 'justify-end' : 'justify-start'">
+          <div class="max-w-[85%] px-3 py-2 rounded-xl" :class="turn.role === 'user' ? 'bg-purple text-white' : 'bg-white/80 text-slate-700'">
+            <div class="text-[10px] opacity-70">{{ turn.role === 'user' ? 'You' : characterName }} · {{ new Date(turn.startedAt).toLocaleTimeString() }}</div>
+            {{ turn.text }}
+          </div>
+        </div>
       </div>
     </div>
   `
 });
 
-const CinemaTool = defineComponent({
-  setup() {
-    const prompt = ref('');
-    const aspectRatio = ref('16:9');
-    const loading = ref(false);
-    const videoUrl = ref('');
-    const status = ref('');
+const CharacterBuilder = defineComponent({
+  props: {
+    // Id of a custom character to edit; empty creates a new one
+    characterId: { type: String, default: '' },
+  },
+  emits: ['saved', 'deleted', 'close'],
+  setup(props, { emit }) {
+    const existing = customCharacters.value[props.characterId];
+    const form = ref({
+      name: existing?.name || '',
+      emoji: existing?.emoji || '⭐',
+      visualDescriptor: existing?.visualDescriptor || '',
+      personality: existing?.personality || '',
+      accessories: [...(existing?.accessories || [])],
+      voiceName: existing?.voiceName || VOICE_NAMES[0],
+    });
+    const saving = ref(false);
+    const error = ref('');
 
-    const generate = async () => {
-      // Check for API key for Veo
-      if (window.aistudio?.hasSelectedApiKey) {
-        const hasKey = await window.aistudio.hasSelectedApiKey();
-        if (!hasKey) {
-          await window.aistudio.openSelectKey();
-          // Assume success after dialog
-        }
-      }
+    const toggleAccessory = (item: string) => {
+      const list = form.value.accessories;
+      form.value.accessories = list.includes(item) ? list.filter(a => a !== item) : [...list, item];
+    };
 
-      loading.value = true;
-      videoUrl.value = '';
-      status.value = 'Initializing Veo...';
-      
+    const save = async () => {
+      const f = form.value;
+      const name = f.name.trim();
+      const personality = f.personality.trim();
+      if (!name || !f.visualDescriptor.trim() || !personality) {
+        error.value = 'Give your character a name, a look and a personality.';
+        return;
+      }
       try {
-        // Re-init client to ensure key is fresh
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        let op = await ai.models.generateVideos({
-          model: 'veo-3.1-fast-generate-preview',
-          prompt: prompt.value,
-          config: {
-            numberOfVideos: 1,
-            resolution: '720p',
-            aspectRatio: aspectRatio.value
-          }
-        });
-        
-        while (!op.done) {
-          status.value = 'Rendering frames...';
-          await new Promise(r => setTimeout(r, 5000));
-          op = await ai.operations.getVideosOperation({ operation: op });
-        }
-
-        const uri = op.response?.generatedVideos?.[0]?.video?.uri;
-        if (uri) {
-          status.value = 'Downloading...';
-          const vidRes = await fetch(`${uri}&key=${process.env.API_KEY}`);
-          const blob = await vidRes.blob();
-          videoUrl.value = URL.createObjectURL(blob);
-        } else {
-          throw new Error('No video URI returned');
-        }
-
+        await guardPrompt('characters', [name, f.visualDescriptor, personality].join('\n'));
+      } catch (e) {
+        error.value = errorNotice(e);
+        return;
+      }
+      const id = props.characterId || `custom-${Date.now().toString(36)}`;
+      const info: CharacterInfo = {
+        // Keeps what the builder doesn't edit, like an imported agent's moods
+        ...existing,
+        name,
+        emoji: f.emoji.trim() || '⭐',
+        visualDescriptor: f.visualDescriptor.trim(),
+        trait: personaTrait(name, personality),
+        personality,
+        accessories: [...f.accessories],
+        voiceName: f.voiceName,
+        custom: true,
+      };
+      saving.value = true;
+      error.value = '';
+      try {
+        await dbPut('characters', id, info);
+        customCharacters.value = { ...customCharacters.value, [id]: info };
+        emit('saved', id);
       } catch (e) {
         console.error(e);
-        status.value = 'Error: ' + (e.message || 'Generation failed');
+        error.value = 'Could not save your character.';
       } finally {
-        loading.value = false;
+        saving.value = false;
       }
     };
 
-    return { prompt, aspectRatio, loading, videoUrl, status, generate };
-  },
+    const remove = async () => {
+      if (!props.characterId || !confirm(`Delete ${existing?.name}?`)) return;
+      await dbDelete('characters', props.characterId);
+      await clearAvatars(props.characterId).catch(e => console.warn('Could not clear avatars', e));
+      const { [props.characterId]: _removed, ...rest } = customCharacters.value;
+      customCharacters.value = rest;
+      emit('deleted', props.characterId);
+    };
+
+    return { form, saving, error, toggleAccessory, save, remove, VISUAL_ACCESSORIES, VOICE_NAMES };
+  },
+  template: `
+    <div class="fixed inset-0 z-50 bg-slate-900/30 backdrop-blur-sm flex items-center justify-center p-4" @click.self="$emit('close')">
+      <div class="glass-panel bg-white/90 rounded-2xl p-6 w-full max-w-lg space-y-4 max-h-full overflow-y-auto">
+        <h2 class="text-xl font-bold text-slate-700">{{ characterId ? 'Edit Character' : 'Create Character' }}</h2>
+        <div class="flex gap-2">
+          <input v-model="form.emoji" maxlength="4" class="w-16 p-2 text-center text-2xl rounded-lg bg-white/50 border border-slate-200" />
+          <input v-model="form.name" placeholder="Name, e.g. Sparkle the Dragon" class="flex-1 p-2 rounded-lg bg-white/50 border border-slate-200" />
+        </div>
+        <label class="block space-y-1">
+          <span class="text-sm font-bold text-slate-600">What do they look like?</span>
+          <textarea v-model="form.visualDescriptor" rows="2" placeholder="A tiny purple dragon with round wings and big green eyes." class="w-full p-2 rounded-lg bg-white/50 border border-slate-200 resize-none"></textarea>
+        </label>
+        <label class="block space-y-1">
+          <span class="text-sm font-bold text-slate-600">Personality</span>
+          <textarea v-model="form.personality" rows="2" placeholder="Brave, silly, and loves telling jokes about clouds." class="w-full p-2 rounded-lg bg-white/50 border border-slate-200 resize-none"></textarea>
+        </label>
+        <div v-for="(items, group) in VISUAL_ACCESSORIES" :key="group" class="space-y-1">
+          <span class="text-sm font-bold text-slate-600">{{ group === 'Default' ? 'Accessories' : group }}</span>
+          <div class="flex flex-wrap gap-2">
+            <button v-for="item in items" :key="item" @click="toggleAccessory(item)"
+              class="px-3 py-1 rounded-full text-sm border transition-colors"
+              :class="form.accessories.includes(item) ? 'bg-purple text-white border-purple' : 'bg-white/50 border-slate-200 text-slate-600'">
+              {{ item }}
+            </button>
+          </div>
+        </div>
+        <label class="block space-y-1">
+          <span class="text-sm font-bold text-slate-600">Voice</span>
+          <select v-model="form.voiceName" class="w-full p-2 rounded-lg bg-white/50 border border-slate-200">
+            <option v-for="v in VOICE_NAMES" :key="v" :value="v">{{ v }}</option>
+          </select>
+        </label>
+        <p v-if="error" class="text-sm text-red-500">{{ error }}</p>
+        <div class="flex gap-2 justify-end">
+          <button v-if="characterId" @click="remove" class="mr-auto px-4 py-2 rounded-lg text-red-500 hover:bg-red-50">Delete</button>
+          <button @click="$emit('close')" class="px-4 py-2 rounded-lg hover:bg-white/60">Cancel</button>
+          <button @click="save" :disabled="saving" class="px-4 py-2 bg-purple text-white rounded-lg font-bold disabled:opacity-50">{{ saving ? 'Saving...' : 'Save' }}</button>
+        </div>
+      </div>
+    </div>
+  `
+});
+
+// Any character, built in or custom, as a shareable agent spec with its cached pictures
+async function characterToSpec(id: string, char: CharacterInfo) {
+  const moods = characterMoods(char);
+  const look = characterLook(char);
+  const avatars: Record<string, string> = {};
+  for (const [key, avatar] of await dbEntries<CachedAvatar>('avatars')) {
+    const [owner, name] = key.split('|');
+    if (owner === id && avatar.look === look && (name === 'reference' || moods[name])) avatars[name] = avatar.dataUrl;
+  }
+  return {
+    format: AGENT_SPEC_FORMAT,
+    version: AGENT_SPEC_VERSION,
+    persona: {
+      name: char.name,
+      emoji: char.emoji,
+      visualDescriptor: char.visualDescriptor,
+      personality: char.personality || char.trait,
+      accessories: char.accessories || [],
+    },
+    voice: characterVoice(id, char),
+    moods,
+    defaultMood: char.defaultMood || Object.keys(moods)[0],
+    avatars,
+    tools: char.tools || [...AGENT_TOOLS],
+    guardrails: char.guardrails || { blockedWords: [], avoidTopics: [] },
+  };
+}
+
+// Saves a validated spec as a new custom character; returns its id
+async function installAgent(spec: AgentSpec) {
+  const id = `agent-${Date.now().toString(36)}`;
+  const { name, emoji, visualDescriptor, personality, accessories } = spec.persona;
+  const info: CharacterInfo = {
+    name, emoji, visualDescriptor, personality, accessories,
+    trait: personaTrait(name, personality),
+    voiceName: spec.voice,
+    moods: spec.moods,
+    defaultMood: spec.defaultMood,
+    tools: spec.tools,
+    guardrails: spec.guardrails,
+    custom: true,
+  };
+  const look = characterLook(info);
+  await Promise.all(Object.entries(spec.avatars).map(([key, dataUrl]) =>
+    dbPut<CachedAvatar>('avatars', `${id}|${key}`, { dataUrl, look, createdAt: Date.now() })));
+  await dbPut('characters', id, info);
+  customCharacters.value = { ...customCharacters.value, [id]: info };
+  return id;
+}
+
+const AgentShare = defineComponent({
+  props: {
+    characterId: { type: String, required: true },
+    character: { type: Object as PropType<CharacterInfo>, required: true },
+  },
+  emits: ['imported'],
+  setup(props, { emit }) {
+    const busy = ref(false);
+    const errors = ref<string[]>([]);
+    const message = ref('');
+
+    const validate = (raw: unknown) => validateAgentSpec(raw, { voices: VOICE_NAMES, safety: getSafetyConfig() });
+
+    const exportAgent = async (format: 'json' | 'zip') => {
+      busy.value = true;
+      errors.value = [];
+      message.value = '';
+      try {
+        // Exports go through the same rules as imports, so whatever is shared can be loaded
+        const { spec, errors: problems } = validate(await characterToSpec(props.characterId, props.character));
+        if (!spec) {
+          errors.value = problems;
+          return;
+        }
+        downloadBlob(await exportAgentBundle(spec, format), `${agentFileName(spec)}.agent.${format}`);
+      } catch (e) {
+        console.error(e);
+        errors.value = ['Could not export this character.'];
+      } finally {
+        busy.value = false;
+      }
+    };
+
+    const onFileChange = async (e: Event) => {
+      const input = e.target as HTMLInputElement;
+      const file = input.files?.[0];
+      input.value = '';
+      if (!file) return;
+      busy.value = true;
+      errors.value = [];
+      message.value = '';
+      try {
+        let raw: unknown;
+        try {
+          raw = await readAgentBundle(file);
+        } catch (err) {
+          console.warn(err);
+          errors.value = ["That file couldn't be read. Pick a .json or .zip agent file."];
+          return;
+        }
+        const { spec, errors: problems } = validate(raw);
+        if (!spec) {
+          errors.value = problems;
+          return;
+        }
+        const id = await installAgent(spec);
+        message.value = `${spec.persona.emoji} ${spec.persona.name} is ready to chat!`;
+        emit('imported', id, spec.defaultMood);
+      } catch (err) {
+        console.error(err);
+        errors.value = ['Could not save the imported character.'];
+      } finally {
+        busy.value = false;
+      }
+    };
+
+    return { busy, errors, message, exportAgent, onFileChange };
+  },
+  template: `
+    <div class="p-3 rounded-xl bg-white/50 space-y-2 text-sm">
+      <div class="flex flex-wrap items-center gap-2">
+        <span class="text-slate-600">Share {{ character.emoji }} {{ character.name }}:</span>
+        <button @click="exportAgent('json')" :disabled="busy" class="px-2 py-1 rounded-lg bg-white/80 hover:bg-white disabled:opacity-50">⬇ .json</button>
+        <button @click="exportAgent('zip')" :disabled="busy" title="Pictures as separate files" class="px-2 py-1 rounded-lg bg-white/80 hover:bg-white disabled:opacity-50">⬇ .zip</button>
+        <label class="ml-auto px-2 py-1 rounded-lg bg-purple text-white cursor-pointer" :class="busy ? 'pointer-events-none opacity-50' : ''">
+          📥 Import agent
+          <input type="file" accept=".json,.zip,application/json,application/zip" @change="onFileChange" class="hidden" />
+        </label>
+      </div>
+      <p v-if="message" class="text-green-600 font-medium">{{ message }}</p>
+      <div v-if="errors.length" class="p-2 rounded-lg bg-red-50 text-red-600">
+        <p class="font-bold">This agent doesn't follow Sadie's rules:</p>
+        <ul class="list-disc pl-5">
+          <li v-for="(e, i) in errors" :key="i">{{ e }}</li>
+        </ul>
+      </div>
+    </div>
+  `
+});
+
+// --- Feature Components ---
+
+const VARIATION_INSTRUCTION = 'Make a new variation of this picture: keep the same subject, style and colors, but change the pose, angle and composition.';
+
+const StudioTool = defineComponent({
+  setup() {
+    const prompt = ref('');
+    const aspectRatio = ref('1:1');
+    const count = ref(1);
+    const styleId = ref('none');
+    const results = ref<{ dataUrl: string; prompt: string; model: string }[]>([]);
+    const loading = ref(false);
+    const notice = ref('');
+    // Detailed version of the prompt from the text model, shown for the child to accept or skip
+    const suggestion = ref('');
+    const enhancing = ref(false);
+
+    let controller: AbortController | null = null;
+
+    const restart = () => {
+      controller?.abort();
+      controller = new AbortController();
+      notice.value = '';
+      return controller.signal;
+    };
+
+    const keep = (items: typeof results.value) => items.forEach(item =>
+      keepInGallery({ kind: 'image', source: 'studio', dataUrl: item.dataUrl, prompt: item.prompt, model: item.model }));
+
+    const generate = async () => {
+      if (!prompt.value) return;
+      const signal = restart();
+      loading.value = true;
+      results.value = [];
+      suggestion.value = '';
+      const style = STYLE_PRESETS.find(p => p.id === styleId.value) || STYLE_PRESETS[0];
+      const fullPrompt = style.prompt(prompt.value);
+      try {
+        await checkAllowance('studio', 'images', count.value);
+        const images = await generateImages(
+          { prompt: fullPrompt, aspectRatio: aspectRatio.value, numberOfImages: count.value },
+          { tool: 'studio', signal }
+        );
+        results.value = images.map(dataUrl => ({ dataUrl, prompt: fullPrompt, model: MODELS.image }));
+        recordUsage('images', images.length);
+        keep(results.value);
+      } catch (e) {
+        if (!isCancelled(e)) notice.value = errorNotice(e);
+      } finally {
+        loading.value = false;
+      }
+    };
+
+    // Variations are edits of the chosen picture, so they keep its look
+    const vary = async (source: typeof results.value[number]) => {
+      const signal = restart();
+      loading.value = true;
+      results.value = [source];
+      try {
+        await checkAllowance('studio', 'images', count.value);
+        // One failed edit shouldn't throw away the ones that worked
+        const settled = await Promise.allSettled(Array.from({ length: count.value }, () =>
+          editImage({ image: source.dataUrl, instruction: VARIATION_INSTRUCTION }, { tool: 'studio', signal })));
+        const images = settled.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+        const failure = settled.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+        if (!images.length) throw failure!.reason;
+        const variations = images.map(dataUrl => ({ dataUrl, prompt: source.prompt, model: MODELS.edit }));
+        results.value = [source, ...variations];
+        recordUsage('images', variations.length);
+        keep(variations);
+        if (failure && !isCancelled(failure.reason)) notice.value = errorNotice(failure.reason);
+      } catch (e) {
+        if (!isCancelled(e)) notice.value = errorNotice(e);
+      } finally {
+        loading.value = false;
+      }
+    };
+
+    const improve = async () => {
+      if (!prompt.value) return;
+      const signal = restart();
+      enhancing.value = true;
+      try {
+        suggestion.value = await enhancePrompt(prompt.value, { tool: 'studio', signal });
+      } catch (e) {
+        if (!isCancelled(e)) notice.value = errorNotice(e);
+      } finally {
+        enhancing.value = false;
+      }
+    };
+
+    const useSuggestion = () => {
+      prompt.value = suggestion.value;
+      suggestion.value = '';
+    };
+
+    onUnmounted(() => controller?.abort());
+
+    return {
+      prompt, aspectRatio, count, styleId, results, loading, notice, suggestion, enhancing,
+      generate, vary, improve, useSuggestion, STYLE_PRESETS
+    };
+  },
+  template: `
+    <div class="space-y-4 h-full flex flex-col">
+      <div class="flex flex-wrap gap-2">
+        <select v-model="aspectRatio" class="p-3 rounded-xl border border-purple/20 bg-white/50 focus:outline-none">
+          <option value="1:1">1:1 Square</option>
+          <option value="16:9">16:9 Landscape</option>
+          <option value="9:16">9:16 Portrait</option>
+          <option value="4:3">4:3 Standard</option>
+          <option value="3:4">3:4 Portrait</option>
+        </select>
+        <select v-model.number="count" class="p-3 rounded-xl border border-purple/20 bg-white/50 focus:outline-none" title="How many pictures">
+          <option v-for="n in 4" :key="n" :value="n">{{ n }} {{ n === 1 ? 'picture' : 'pictures' }}</option>
+        </select>
+        <input v-model="prompt" placeholder="Describe your image..." class="flex-1 min-w-[12rem] p-3 rounded-xl border border-purple/20 bg-white/50 focus:outline-none focus:border-purple" @keyup.enter="generate">
+        <button @click="improve" :disabled="loading || enhancing || !prompt" title="Make my prompt better" class="px-4 py-3 bg-white/70 text-purple rounded-xl font-bold hover:bg-white disabled:opacity-50">
+          {{ enhancing ? '...' : '✨' }}
+        </button>
+        <button @click="generate" :disabled="loading" class="px-6 py-3 bg-purple text-white rounded-xl font-bold hover:bg-purple/90 disabled:opacity-50">
+          {{ loading ? '...' : 'Create' }}
+        </button>
+      </div>
+      <div class="flex flex-wrap gap-2">
+        <button v-for="style in STYLE_PRESETS" :key="style.id" @click="styleId = style.id"
+          class="px-3 py-1 rounded-full text-sm transition-colors"
+          :class="styleId === style.id ? 'bg-purple text-white' : 'bg-white/60 text-slate-600 hover:bg-white'">
+          {{ style.icon }} {{ style.label }}
+        </button>
+      </div>
+      <div v-if="suggestion" class="p-3 rounded-xl bg-purple/10 space-y-2">
+        <div class="text-sm font-bold text-purple">✨ Here's a more detailed idea:</div>
+        <textarea v-model="suggestion" rows="3" class="w-full p-2 rounded-lg bg-white/80 text-sm resize-none focus:outline-none"></textarea>
+        <div class="flex gap-2 text-sm">
+          <button @click="useSuggestion" class="px-3 py-1 rounded-lg bg-purple text-white font-bold">Use this</button>
+          <button @click="suggestion = ''" class="px-3 py-1 rounded-lg bg-white/70 text-slate-600">Keep mine</button>
+        </div>
+      </div>
+      <div class="flex-1 rounded-2xl bg-slate-50/50 border border-white flex items-center justify-center overflow-hidden relative p-2 min-h-0">
+         <div v-if="results.length" class="grid gap-2 w-full h-full" :class="results.length > 1 ? 'grid-cols-2' : 'grid-cols-1'">
+           <div v-for="(item, i) in results" :key="i" class="relative group flex items-center justify-center min-h-0">
+             <img :src="item.dataUrl" class="max-w-full max-h-full object-contain shadow-lg rounded-lg" />
+             <button @click="vary(item)" :disabled="loading"
+               class="absolute bottom-2 right-2 px-3 py-1 rounded-lg bg-white/90 text-purple text-sm font-bold opacity-0 group-hover:opacity-100 transition-opacity disabled:opacity-50">
+               🔁 Variations
+             </button>
+           </div>
+           <div v-if="loading" class="flex items-center justify-center animate-pulse text-purple font-bold">Making variations...</div>
+         </div>
+         <div v-else-if="loading" class="animate-pulse text-purple text-lg font-bold">Generating artwork...</div>
+         <div v-else-if="notice" class="max-w-md p-4 rounded-xl bg-purple/10 text-purple text-center font-medium">{{ notice }}</div>
+         <div v-else class="text-slate-400">Enter a prompt to start</div>
+      </div>
+      <div v-if="notice && results.length" class="p-3 rounded-xl bg-purple/10 text-purple text-center text-sm font-medium">{{ notice }}</div>
+    </div>
+  `
+});
+
+// Paint or drag a box over an image to choose the area an edit may change.
+// Emits the mask as a transparent PNG data URL, or '' when nothing is marked.
+const MaskPainter = defineComponent({
+  props: {
+    image: { type: String, required: true },
+    mode: { type: String as PropType<'brush' | 'box'>, default: 'brush' },
+    brushSize: { type: Number, default: 40 },
+  },
+  emits: ['change'],
+  setup(props, { emit, expose }) {
+    const canvas = ref<HTMLCanvasElement>();
+    let drawing = false;
+    let last = { x: 0, y: 0 };
+    let boxStart = { x: 0, y: 0 };
+    let beforeBox: ImageData | null = null;
+    let marked = false;
+
+    const context = () => canvas.value!.getContext('2d')!;
+
+    const clear = () => {
+      if (!canvas.value) return;
+      context().clearRect(0, 0, canvas.value.width, canvas.value.height);
+      marked = false;
+      emit('change', '');
+    };
+
+    // The canvas works at the image's real size; pointer positions are scaled to it
+    watch(() => props.image, async (image) => {
+      const img = await loadImage(image);
+      await nextTick();
+      if (!canvas.value) return;
+      canvas.value.width = img.naturalWidth;
+      canvas.value.height = img.naturalHeight;
+      clear();
+    }, { immediate: true });
+
+    const point = (e: PointerEvent) => {
+      const rect = canvas.value!.getBoundingClientRect();
+      return {
+        x: (e.clientX - rect.left) * canvas.value!.width / rect.width,
+        y: (e.clientY - rect.top) * canvas.value!.height / rect.height,
+      };
+    };
+    const scale = () => canvas.value!.width / canvas.value!.getBoundingClientRect().width;
+
+    const onDown = (e: PointerEvent) => {
+      drawing = true;
+      canvas.value!.setPointerCapture(e.pointerId);
+      const ctx = context();
+      ctx.fillStyle = ctx.strokeStyle = '#a855f7';
+      last = boxStart = point(e);
+      if (props.mode === 'box') {
+        beforeBox = ctx.getImageData(0, 0, canvas.value!.width, canvas.value!.height);
+      } else {
+        onMove(e);
+      }
+    };
+
+    const onMove = (e: PointerEvent) => {
+      if (!drawing) return;
+      const ctx = context();
+      const at = point(e);
+      if (props.mode === 'box') {
+        ctx.putImageData(beforeBox!, 0, 0);
+        ctx.fillRect(boxStart.x, boxStart.y, at.x - boxStart.x, at.y - boxStart.y);
+      } else {
+        ctx.lineWidth = props.brushSize * scale();
+        ctx.lineCap = ctx.lineJoin = 'round';
+        ctx.beginPath();
+        ctx.moveTo(last.x, last.y);
+        ctx.lineTo(at.x, at.y);
+        ctx.stroke();
+      }
+      last = at;
+      marked = true;
+    };
+
+    const onUp = () => {
+      if (!drawing) return;
+      drawing = false;
+      beforeBox = null;
+      if (marked) emit('change', canvas.value!.toDataURL('image/png'));
+    };
+
+    expose({ clear });
+
+    return { canvas, onDown, onMove, onUp };
+  },
+  template: `
+    <div class="relative inline-block max-w-full">
+      <img :src="image" class="block max-w-full max-h-[50vh] object-contain rounded-lg shadow-lg select-none" draggable="false" />
+      <canvas ref="canvas" class="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none rounded-lg"
+        @pointerdown="onDown" @pointermove="onMove" @pointerup="onUp" @pointercancel="onUp"></canvas>
+    </div>
+  `
+});
+
+const EditorTool = defineComponent({
+  components: { MaskPainter },
+  props: {
+    // Image sent over from the gallery; emits consumed once it's taken
+    asset: { type: Object as PropType<GalleryAsset | null>, default: null },
+  },
+  emits: ['consumed'],
+  setup(props, { emit }) {
+    const prompt = ref('');
+    const imagePreview = ref('');
+    const history = ref<EditHistory | null>(null);
+    const loading = ref(false);
+    const notice = ref('');
+    // Before/after slider position, 0..100
+    const compare = ref(50);
+    const comparing = ref(false);
+    // Region the next edit is limited to; transparent PNG from MaskPainter
+    const masking = ref(false);
+    const maskMode = ref<'brush' | 'box'>('brush');
+    const brushSize = ref(40);
+    const mask = ref('');
+    const painter = ref<{ clear: () => void }>();
+    const downloadFormat = ref<ImageFormat>('image/png');
+
+    const current = computed(() => history.value ? currentStep(history.value) : null);
+    const timeline = computed(() => history.value ? visibleTimeline(history.value) : { past: [], future: [] });
+    const hasEdits = computed(() => (history.value?.steps.length || 0) > 1);
+
+    // Uploads are scaled down and labelled with their real type before the first edit
+    const startHistory = async (image: string) => {
+      notice.value = '';
+      try {
+        const prepared = await prepareImage(image);
+        imagePreview.value = prepared;
+        history.value = createEditHistory(prepared);
+        comparing.value = false;
+        mask.value = '';
+      } catch (e) {
+        notice.value = errorNotice(e);
+      }
+    };
+
+    const onFileChange = (e: Event) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (file) {
+        const reader = new FileReader();
+        reader.onload = (e) => startHistory(e.target?.result as string);
+        reader.readAsDataURL(file);
+      }
+    };
+
+    watch(() => props.asset, async (asset) => {
+      if (!asset) return;
+      emit('consumed');
+      if (asset.kind === 'image') startHistory(await blobToDataUrl(asset.blob));
+    }, { immediate: true });
+
+    let controller: AbortController | null = null;
+
+    // Each instruction applies to the current step, so editing after an undo starts a branch
+    const edit = async () => {
+      if (!prompt.value || !history.value) return;
+      controller?.abort();
+      controller = new AbortController();
+      loading.value = true;
+      notice.value = '';
+      const instruction = prompt.value;
+      try {
+        await checkAllowance('editor', 'images');
+        const base = currentStep(history.value).image;
+        // Editing with gemini-2.5-flash-image ("Nano Banana")
+        let image = await editImage(
+          { image: base, instruction, mask: mask.value ? await maskForModel(mask.value) : undefined },
+          { tool: 'editor', signal: controller.signal }
+        );
+        // The model is asked to stay inside the mask; compositing makes sure of it
+        if (mask.value) image = await compositeMasked(base, image, mask.value);
+        history.value = addEditStep(history.value, image, instruction);
+        prompt.value = '';
+        painter.value?.clear();
+        masking.value = false;
+        recordUsage('images');
+        keepInGallery({ kind: 'image', source: 'editor', dataUrl: image, prompt: instruction, model: MODELS.edit });
+      } catch (e) {
+        if (!isCancelled(e)) notice.value = errorNotice(e);
+      } finally {
+        loading.value = false;
+      }
+    };
+
+    const undo = () => history.value = history.value && undoEdit(history.value);
+    const redo = () => history.value = history.value && redoEdit(history.value);
+    const select = (step: EditStep) => history.value = history.value && selectEditStep(history.value, step.id);
+    const canUndoEdit = computed(() => !!history.value && canUndo(history.value));
+    const canRedoEdit = computed(() => !!history.value && canRedo(history.value));
+
+    const branches = (step: EditStep) => history.value ? siblingSteps(history.value, step) : [];
+    const nextBranch = (step: EditStep) => {
+      const siblings = branches(step);
+      select(siblings[(siblings.indexOf(step) + 1) % siblings.length]);
+    };
+
+    // Zip of every image from the original to the current step, plus the prompts that made them
+    const exportChain = async () => {
+      if (!history.value) return;
+      const chain = editChain(history.value);
+      const files: ZipEntry[] = [];
+      const steps = [];
+      for (const [i, step] of chain.entries()) {
+        const blob = await dataUrlToBlob(step.image);
+        const name = `${String(i).padStart(2, '0')}-${i ? 'edit' : 'original'}.${formatExtension(blob.type)}`;
+        files.push({ name, data: new Uint8Array(await blob.arrayBuffer()) });
+        steps.push({ file: name, prompt: step.prompt || null, createdAt: new Date(step.createdAt).toISOString() });
+      }
+      files.push({ name: 'edits.json', data: JSON.stringify({ steps }, null, 2) });
+      downloadBlob(createZip(files), `sadie-edits-${Date.now()}.zip`);
+    };
+
+    const downloadCurrent = async () => {
+      if (!current.value) return;
+      const blob = await convertImage(current.value.image, downloadFormat.value);
+      downloadBlob(blob, `sadie-edit-${Date.now()}.${formatExtension(downloadFormat.value)}`);
+    };
+
+    // Marking a region only makes sense on the step being edited
+    watch(() => current.value?.id, () => mask.value = '');
+
+    onUnmounted(() => controller?.abort());
+
+    return {
+      prompt, onFileChange, imagePreview, current, timeline, hasEdits, loading, notice, edit, compare, comparing,
+      undo, redo, select, canUndoEdit, canRedoEdit, branches, nextBranch, exportChain,
+      masking, maskMode, brushSize, mask, painter, downloadFormat, downloadCurrent
+    };
+  },
+  template: `
+    <div class="h-full flex flex-col space-y-4">
+      <div class="flex gap-4 p-4 bg-white/40 rounded-xl">
+        <div class="w-1/3 space-y-2">
+           <label class="block text-sm font-bold text-slate-600">Original Image</label>
+           <div class="relative aspect-square bg-slate-100 rounded-lg overflow-hidden border border-dashed border-slate-300 flex items-center justify-center cursor-pointer hover:bg-slate-50">
+             <input type="file" accept="image/*" @change="onFileChange" class="absolute inset-0 opacity-0 cursor-pointer" />
+             <img v-if="imagePreview" :src="imagePreview" class="w-full h-full object-cover" />
+             <span v-else class="text-slate-400 text-sm">Upload</span>
+           </div>
+        </div>
+        <div class="flex-1 space-y-2 flex flex-col">
+           <label class="block text-sm font-bold text-slate-600">Instructions</label>
+           <textarea v-model="prompt" class="flex-1 p-3 rounded-lg border border-purple/20 bg-white/80 resize-none focus:outline-none" placeholder="e.g., Make it look like a sketch, remove the background..."></textarea>
+           <button @click="edit" :disabled="loading || !imagePreview" class="w-full py-3 bg-purple text-white rounded-lg font-bold hover:bg-purple/90 disabled:opacity-50">
+             {{ loading ? 'Editing...' : mask ? 'Apply Magic to Marked Area' : 'Apply Magic' }}
+           </button>
+        </div>
+      </div>
+
+      <div v-if="current" class="flex flex-wrap items-center gap-2 text-sm">
+        <template v-if="hasEdits">
+          <button @click="undo" :disabled="!canUndoEdit" class="px-3 py-1 rounded-lg bg-white/60 hover:bg-white disabled:opacity-40">↶ Undo</button>
+          <button @click="redo" :disabled="!canRedoEdit" class="px-3 py-1 rounded-lg bg-white/60 hover:bg-white disabled:opacity-40">↷ Redo</button>
+          <label class="flex items-center gap-1 px-3 py-1 rounded-lg bg-white/60 cursor-pointer">
+            <input type="checkbox" v-model="comparing" :disabled="masking" /> Before / after
+          </label>
+        </template>
+        <button @click="masking = !masking" class="px-3 py-1 rounded-lg" :class="masking ? 'bg-purple text-white' : 'bg-white/60 hover:bg-white'">🖌 Mark area</button>
+        <template v-if="masking">
+          <select v-model="maskMode" class="px-2 py-1 rounded-lg bg-white/80">
+            <option value="brush">Brush</option>
+            <option value="box">Box</option>
+          </select>
+          <input v-if="maskMode === 'brush'" type="range" min="10" max="120" v-model.number="brushSize" title="Brush size" class="w-24" />
+          <button @click="painter?.clear()" :disabled="!mask" class="px-3 py-1 rounded-lg bg-white/60 hover:bg-white disabled:opacity-40">Clear</button>
+        </template>
+        <div v-if="hasEdits" class="ml-auto flex items-center gap-2">
+          <select v-model="downloadFormat" class="px-2 py-1 rounded-lg bg-white/80" title="Download format">
+            <option value="image/png">PNG</option>
+            <option value="image/jpeg">JPEG</option>
+            <option value="image/webp">WebP</option>
+          </select>
+          <button @click="downloadCurrent" class="px-3 py-1 rounded-lg bg-white/60 hover:bg-white">⬇ Download</button>
+          <button @click="exportChain" class="px-3 py-1 rounded-lg bg-white/60 hover:bg-white">⬇ Export edits</button>
+        </div>
+      </div>
+
+      <div class="flex-1 bg-slate-50/50 rounded-xl border border-white flex items-center justify-center p-4 overflow-hidden min-h-0">
+        <MaskPainter v-if="current && masking" ref="painter" :image="current.image" :mode="maskMode" :brush-size="brushSize" @change="mask = $event" />
+        <div v-else-if="current && hasEdits && comparing" class="relative max-w-full max-h-full">
+          <img :src="current.image" class="max-w-full max-h-full object-contain rounded-lg shadow-lg" />
+          <img :src="imagePreview" class="absolute inset-0 w-full h-full object-contain rounded-lg"
+            :style="{ clipPath: 'inset(0 ' + (100 - compare) + '% 0 0)' }" />
+          <div class="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none" :style="{ left: compare + '%' }"></div>
+          <input type="range" min="0" max="100" v-model.number="compare" class="absolute bottom-2 left-4 right-4 w-[calc(100%-2rem)]" title="Drag to compare" />
+        </div>
+        <img v-else-if="current && hasEdits" :src="current.image" class="max-w-full max-h-full object-contain rounded-lg shadow-lg" />
+        <div v-else-if="notice && !loading" class="max-w-md p-4 rounded-xl bg-purple/10 text-purple text-center font-medium">{{ notice }}</div>
+        <div v-else class="text-slate-400">{{ loading ? 'Processing pixel magic...' : 'Result will appear here' }}</div>
+      </div>
+      <div v-if="notice && hasEdits && !loading" class="p-3 rounded-xl bg-purple/10 text-purple text-center text-sm font-medium">{{ notice }}</div>
+
+      <!-- Timeline: steps up to the current one, then the ones redo would bring back -->
+      <div v-if="hasEdits" class="flex gap-2 overflow-x-auto pb-1">
+        <div v-for="(step, i) in [...timeline.past, ...timeline.future]" :key="step.id" class="relative shrink-0 w-20">
+          <button @click="select(step)" :title="step.prompt || 'Original'"
+            class="block w-20 h-20 rounded-lg overflow-hidden border-2 transition-all"
+            :class="[step.id === current?.id ? 'border-purple' : 'border-transparent', i >= timeline.past.length ? 'opacity-40' : '']">
+            <img :src="step.image" class="w-full h-full object-cover" />
+          </button>
+          <div class="text-[10px] text-slate-500 truncate mt-0.5">{{ step.prompt || 'Original' }}</div>
+          <button v-if="branches(step).length > 1" @click="nextBranch(step)" title="Switch to another branch"
+            class="absolute top-1 right-1 text-[10px] px-1 rounded bg-slate-800/70 text-white">⑂ {{ branches(step).indexOf(step) + 1 }}/{{ branches(step).length }}</button>
+        </div>
+      </div>
+    </div>
+  `
+});
+
+const SCRIPT_KEY = 'sadie-movie-script';
+
+const SCRIPT_INSTRUCTION = `You write very short animated movies for young children.
+Turn the child's story idea into a script with 3 to 6 scenes, using only the characters listed in the schema.
+Each scene's visualPrompt describes one continuous shot (who is there, what they do, where) without camera jargon.
+Each narration is one or two simple, cheerful sentences that fit in the scene's duration.`;
+
+// Built with the schema Type so the model's reply always parses into a MovieScript
+const scriptSchema = (characterIds: string[]): Schema => ({
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING, description: 'movie title' },
+    characters: { type: Type.ARRAY, items: { type: Type.STRING, enum: characterIds } },
+    scenes: {
+      type: Type.ARRAY,
+      minItems: '1',
+      maxItems: '6',
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          visualPrompt: { type: Type.STRING, description: 'what the scene shows' },
+          narration: { type: Type.STRING, description: 'narration' },
+          durationSeconds: { type: Type.INTEGER, minimum: SCENE_DURATIONS[0], maximum: SCENE_DURATIONS[SCENE_DURATIONS.length - 1] },
+          characters: { type: Type.ARRAY, items: { type: Type.STRING, enum: characterIds } },
+        },
+        required: ['visualPrompt', 'narration', 'durationSeconds', 'characters'],
+        propertyOrdering: ['visualPrompt', 'narration', 'durationSeconds', 'characters'],
+      },
+    },
+  },
+  required: ['title', 'characters', 'scenes'],
+  propertyOrdering: ['title', 'characters', 'scenes'],
+});
+
+type SceneStatus = 'queued' | 'rendering' | 'done' | 'failed';
+
+// Script Writer mode of the Cinema tab: idea -> script -> storyboard -> clips -> movie
+const MovieMaker = defineComponent({
+  setup() {
+    const idea = ref('');
+    const script = ref<MovieScript | null>(null);
+    const writing = ref(false);
+    const notice = ref('');
+    // Keyed by scene id; thumbnails and clips are not saved with the script
+    const thumbs = ref<Record<string, string>>({});
+    const clips = ref<Record<string, { url: string; blob: Blob }>>({});
+    const status = ref<Record<string, SceneStatus>>({});
+    const busy = ref(false);
+    const playing = ref(-1);
+    const player = ref<HTMLVideoElement>();
+
+    let controller: AbortController | null = null;
+
+    try {
+      const saved = JSON.parse(localStorage.getItem(SCRIPT_KEY) || 'null');
+      if (saved) script.value = saved;
+    } catch {
+      // Start fresh
+    }
+    watch(script, (value) => localStorage.setItem(SCRIPT_KEY, JSON.stringify(value)), { deep: true });
+
+    const restart = () => {
+      controller?.abort();
+      controller = new AbortController();
+      notice.value = '';
+      return controller.signal;
+    };
+
+    const sceneLooks = (scene: Scene) => scene.characters
+      .map(id => allCharacters.value[id])
+      .filter(Boolean)
+      .map(c => `${c.name}: ${characterLook(c)}`)
+      .join(' ');
+    // Same claymation look as the characters' avatars, so scenes match each other
+    const scenePrompt = (scene: Scene) => `${claymationPrompt(scene.visualPrompt)} ${sceneLooks(scene)}`.trim();
+
+    const write = async () => {
+      if (!idea.value) return;
+      const signal = restart();
+      writing.value = true;
+      try {
+        await checkAllowance('cinema');
+        const ids = Object.keys(allCharacters.value);
+        const raw = await generateJson(
+          { prompt: idea.value, schema: scriptSchema(ids), systemInstruction: SCRIPT_INSTRUCTION },
+          { tool: 'cinema', signal }
+        );
+        const written = normalizeScript(raw, ids);
+        if (!written.scenes.length) throw new GenAIError('empty', 'Script had no scenes');
+        stopMovie();
+        Object.values(clips.value).forEach(c => URL.revokeObjectURL(c.url));
+        thumbs.value = {};
+        clips.value = {};
+        status.value = {};
+        script.value = written;
+      } catch (e) {
+        if (!isCancelled(e)) notice.value = errorNotice(e);
+      } finally {
+        writing.value = false;
+      }
+    };
+
+    // A changed scene needs a new clip
+    const changed = (scene: Scene) => {
+      if (clips.value[scene.id]) URL.revokeObjectURL(clips.value[scene.id].url);
+      delete clips.value[scene.id];
+      delete status.value[scene.id];
+    };
+
+    const addScene = () => script.value?.scenes.push(emptyScene());
+    const removeScene = (i: number) => {
+      const [scene] = script.value!.scenes.splice(i, 1);
+      changed(scene);
+      delete thumbs.value[scene.id];
+    };
+    const moveScene = (i: number, by: number) => {
+      const scenes = script.value!.scenes;
+      if (i + by < 0 || i + by >= scenes.length) return;
+      [scenes[i], scenes[i + by]] = [scenes[i + by], scenes[i]];
+    };
+    const toggleCharacter = (scene: Scene, id: string) => {
+      scene.characters = scene.characters.includes(id) ? scene.characters.filter(c => c !== id) : [...scene.characters, id];
+      changed(scene);
+    };
+
+    const drawThumb = async (scene: Scene, signal: AbortSignal) => {
+      await checkAllowance('cinema', 'images');
+      const [image] = await generateImages({ prompt: scenePrompt(scene), aspectRatio: '16:9' }, { tool: 'cinema', signal });
+      recordUsage('images');
+      thumbs.value[scene.id] = image;
+      changed(scene);
+    };
+
+    const runQueue = async (scenes: Scene[], job: (scene: Scene, signal: AbortSignal) => Promise<void>) => {
+      const signal = restart();
+      busy.value = true;
+      scenes.forEach(scene => status.value[scene.id] = 'queued');
+      try {
+        for (const scene of scenes) {
+          if (signal.aborted) break;
+          status.value[scene.id] = 'rendering';
+          try {
+            await job(scene, signal);
+            status.value[scene.id] = 'done';
+          } catch (e) {
+            status.value[scene.id] = 'failed';
+            if (isCancelled(e)) break;
+            notice.value = errorNotice(e);
+            // No point trying the rest once today's allowance is used up
+            if (e instanceof LimitReachedError) break;
+          }
+        }
+      } finally {
+        scenes.forEach(scene => { if (status.value[scene.id] === 'queued' || status.value[scene.id] === 'rendering') delete status.value[scene.id]; });
+        busy.value = false;
+      }
+    };
+
+    const storyboard = (scene?: Scene) => {
+      const scenes = scene ? [scene] : script.value!.scenes.filter(s => !thumbs.value[s.id] && s.visualPrompt);
+      return runQueue(scenes, drawThumb);
+    };
+
+    // Each clip starts from its storyboard picture when there is one
+    const renderClip = async (scene: Scene, signal: AbortSignal) => {
+      await checkAllowance('cinema', 'videos');
+      const blob = await generateVideo(
+        { prompt: scenePrompt(scene), image: thumbs.value[scene.id], durationSeconds: scene.durationSeconds },
+        // Counted once Veo has the job, so cancelling the queue doesn't undo it
+        { tool: 'cinema', signal, onStarted: () => recordUsage('videos') }
+      );
+      clips.value[scene.id] = { url: URL.createObjectURL(blob), blob };
+      keepInGallery({ kind: 'video', source: 'cinema', blob, prompt: scene.visualPrompt, model: MODELS.video, notes: script.value?.title });
+    };
+
+    const render = (scene?: Scene) => {
+      const scenes = scene ? [scene] : script.value!.scenes.filter(s => !clips.value[s.id] && s.visualPrompt);
+      return runQueue(scenes, renderClip);
+    };
+
+    const cancel = () => controller?.abort();
+
+    const ready = computed(() => !!script.value?.scenes.length && script.value.scenes.every(s => clips.value[s.id]));
+    const totalSeconds = computed(() => script.value ? scriptDuration(script.value) : 0);
+
+    // Back-to-back playback; each scene's narration is read aloud as its clip starts
+    const playScene = async (i: number) => {
+      const scene = script.value?.scenes[i];
+      if (!scene || !clips.value[scene.id]) return stopMovie();
+      playing.value = i;
+      await nextTick();
+      if (!player.value) return;
+      player.value.src = clips.value[scene.id].url;
+      player.value.volume = 0.4;
+      player.value.play().catch(() => {});
+      speechSynthesis.cancel();
+      if (scene.narration) speechSynthesis.speak(new SpeechSynthesisUtterance(scene.narration));
+    };
+    const playMovie = () => playScene(0);
+    const onEnded = () => playScene(playing.value + 1);
+    function stopMovie() {
+      playing.value = -1;
+      speechSynthesis.cancel();
+      player.value?.pause();
+    }
+
+    const clearScript = () => {
+      stopMovie();
+      script.value = null;
+    };
+
+    onUnmounted(() => {
+      controller?.abort();
+      stopMovie();
+      Object.values(clips.value).forEach(c => URL.revokeObjectURL(c.url));
+    });
+
+    return {
+      idea, script, writing, notice, thumbs, clips, status, busy, playing, player, ready, totalSeconds,
+      write, changed, addScene, removeScene, moveScene, toggleCharacter, storyboard, render, cancel,
+      playMovie, onEnded, stopMovie, clearScript, allCharacters, SCENE_DURATIONS
+    };
+  },
+  template: `
+    <div class="flex-1 flex flex-col gap-4 min-h-0">
+      <div class="glass-panel p-4 rounded-xl space-y-3">
+        <div class="flex gap-2">
+          <input v-model="idea" @keyup.enter="write" class="flex-1 p-2 rounded-lg bg-white/50 border border-purple/10" placeholder="Story idea, e.g. Zorp and R0-B0 build a rocket to visit the moon" />
+          <button @click="write" :disabled="writing || busy || !idea" class="px-4 py-2 bg-purple text-white rounded-lg disabled:opacity-50">{{ writing ? 'Writing...' : '📜 Write Script' }}</button>
+        </div>
+        <div v-if="notice" class="p-3 rounded-xl bg-purple/10 text-purple text-center text-sm font-medium">{{ notice }}</div>
+      </div>
+
+      <div v-if="script" class="flex-1 overflow-y-auto space-y-3 min-h-0">
+        <div class="flex flex-wrap items-center gap-2">
+          <input v-model="script.title" class="text-lg font-bold text-purple bg-transparent border-b border-purple/20 focus:outline-none" />
+          <span class="text-xs text-slate-500">{{ script.scenes.length }} scenes · {{ totalSeconds }}s</span>
+          <div class="ml-auto flex gap-2 text-sm">
+            <template v-if="!busy">
+              <button @click="storyboard()" class="px-3 py-1 rounded-lg bg-white/60 hover:bg-white">🖼️ Draw storyboard</button>
+              <button @click="render()" class="px-3 py-1 rounded-lg bg-white/60 hover:bg-white">🎬 Render all</button>
+            </template>
+            <button v-else @click="cancel" class="px-3 py-1 rounded-lg bg-white/70 text-red-500">Cancel queue</button>
+            <button @click="playing < 0 ? playMovie() : stopMovie()" :disabled="!ready" class="px-3 py-1 rounded-lg bg-purple text-white disabled:opacity-40">{{ playing < 0 ? '▶ Play movie' : '■ Stop' }}</button>
+            <button @click="clearScript" :disabled="busy" class="px-3 py-1 rounded-lg text-red-500 hover:bg-red-50 disabled:opacity-40">Clear</button>
+          </div>
+        </div>
+
+        <div v-show="playing >= 0" class="bg-black rounded-xl overflow-hidden relative">
+          <video ref="player" @ended="onEnded" playsinline class="w-full max-h-[50vh]"></video>
+          <div v-if="playing >= 0" class="absolute bottom-2 inset-x-4 text-center text-white text-sm bg-black/50 rounded-lg px-2 py-1">{{ script.scenes[playing]?.narration }}</div>
+        </div>
+
+        <div v-for="(scene, i) in script.scenes" :key="scene.id" class="flex gap-3 p-3 rounded-xl bg-white/50" :class="playing === i ? 'ring-2 ring-purple' : ''">
+          <div class="w-40 shrink-0 space-y-1">
+            <div class="aspect-video rounded-lg bg-slate-100 overflow-hidden flex items-center justify-center text-xs text-slate-400">
+              <video v-if="clips[scene.id]" :src="clips[scene.id].url" muted loop playsinline class="w-full h-full object-cover" @mouseenter="$event.target.play()" @mouseleave="$event.target.pause()"></video>
+              <img v-else-if="thumbs[scene.id]" :src="thumbs[scene.id]" class="w-full h-full object-cover" />
+              <span v-else>Scene {{ i + 1 }}</span>
+            </div>
+            <div class="text-[10px] text-center" :class="status[scene.id] === 'failed' ? 'text-red-500' : 'text-slate-500'">
+              {{ status[scene.id] === 'rendering' ? 'Working...' : status[scene.id] === 'queued' ? 'Waiting...' : status[scene.id] === 'failed' ? 'Failed' : clips[scene.id] ? 'Clip ready' : '' }}
+            </div>
+            <div class="flex justify-center gap-1 text-xs" v-if="!busy">
+              <button @click="storyboard(scene)" :disabled="!scene.visualPrompt" title="Redraw picture" class="px-2 rounded bg-white/70 hover:bg-white">🖼️</button>
+              <button @click="render(scene)" :disabled="!scene.visualPrompt" title="Render this clip" class="px-2 rounded bg-white/70 hover:bg-white">🎬</button>
+            </div>
+          </div>
+          <div class="flex-1 space-y-2 text-sm">
+            <textarea v-model="scene.visualPrompt" @input="changed(scene)" :disabled="busy" rows="2" class="w-full p-2 rounded-lg bg-white/80 resize-none focus:outline-none" placeholder="What happens in this scene?"></textarea>
+            <textarea v-model="scene.narration" :disabled="busy" rows="2" class="w-full p-2 rounded-lg bg-white/80 resize-none focus:outline-none" placeholder="Narration"></textarea>
+            <div class="flex flex-wrap items-center gap-1">
+              <button v-for="(char, id) in allCharacters" :key="id" @click="toggleCharacter(scene, id)" :disabled="busy" :title="char.name"
+                class="w-7 h-7 rounded-full" :class="scene.characters.includes(id) ? 'bg-purple/20 ring-1 ring-purple' : 'opacity-40 hover:opacity-80'">{{ char.emoji }}</button>
+              <select v-model.number="scene.durationSeconds" @change="changed(scene)" :disabled="busy" class="ml-auto px-2 py-1 rounded-lg bg-white/80">
+                <option v-for="d in SCENE_DURATIONS" :key="d" :value="d">{{ d }}s</option>
+              </select>
+            </div>
+          </div>
+          <div class="flex flex-col gap-1 text-xs" v-if="!busy">
+            <button @click="moveScene(i, -1)" :disabled="i === 0" class="px-2 py-1 rounded bg-white/70 disabled:opacity-30">▲</button>
+            <button @click="moveScene(i, 1)" :disabled="i === script.scenes.length - 1" class="px-2 py-1 rounded bg-white/70 disabled:opacity-30">▼</button>
+            <button @click="removeScene(i)" class="px-2 py-1 rounded text-red-500 hover:bg-red-50">✕</button>
+          </div>
+        </div>
+        <button v-if="!busy" @click="addScene" class="w-full py-2 rounded-xl border border-dashed border-purple/30 text-purple text-sm hover:bg-white/40">+ Add scene</button>
+      </div>
+      <div v-else class="flex-1 flex items-center justify-center text-slate-400 text-center">Write a story idea and Sadie will turn it into a movie script.</div>
+    </div>
+  `
+});
+
+// A started Veo job, saved so a reload can pick up polling instead of losing it
+const PENDING_VIDEO_KEY = 'sadie-pending-video';
+
+interface PendingVideo {
+  operation: GenerateVideosOperation;
+  prompt: string;
+  startedAt: number;
+}
+
+function readPendingVideo(): PendingVideo | null {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_VIDEO_KEY) || 'null');
+  } catch {
+    return null;
+  }
+}
+
+const CinemaTool = defineComponent({
+  components: { MovieMaker },
+  props: {
+    asset: { type: Object as PropType<GalleryAsset | null>, default: null },
+  },
+  emits: ['consumed'],
+  setup(props, { emit }) {
+    const prompt = ref('');
+    const aspectRatio = ref('16:9');
+    const loading = ref(false);
+    const videoUrl = ref('');
+    const status = ref('');
+    const notice = ref('');
+    // Optional first frame for image-to-video
+    const startImage = ref('');
+    const pickerOpen = ref(false);
+    const galleryImages = ref<{ id: string; url: string; asset: GalleryAsset }[]>([]);
+    const startedAt = ref(0);
+    const now = ref(Date.now());
+    const mode = ref<'clip' | 'movie'>('clip');
+
+    let controller: AbortController | null = null;
+    let clock: ReturnType<typeof setInterval> | null = null;
+
+    const elapsed = computed(() => {
+      const seconds = Math.max(0, Math.floor((now.value - startedAt.value) / 1000));
+      return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+    });
+
+    const useImage = async (dataUrl: string) => {
+      try {
+        startImage.value = await prepareImage(dataUrl);
+      } catch (e) {
+        notice.value = errorNotice(e);
+      }
+    };
+
+    watch(() => props.asset, async (asset) => {
+      if (!asset) return;
+      emit('consumed');
+      if (asset.prompt) prompt.value = asset.prompt;
+      if (asset.kind === 'image') useImage(await blobToDataUrl(asset.blob));
+    }, { immediate: true });
+
+    const onFileChange = (e: Event) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (file) blobToDataUrl(file).then(useImage);
+    };
+
+    const openPicker = async () => {
+      pickerOpen.value = !pickerOpen.value;
+      if (!pickerOpen.value) return;
+      galleryImages.value.forEach(img => URL.revokeObjectURL(img.url));
+      const assets = (await listAssets()).filter(a => a.kind === 'image');
+      galleryImages.value = assets.map(asset => ({ id: asset.id, url: URL.createObjectURL(asset.blob), asset }));
+    };
+
+    const pick = async (asset: GalleryAsset) => {
+      pickerOpen.value = false;
+      await useImage(await blobToDataUrl(asset.blob));
+    };
+
+    const stopClock = () => {
+      if (clock) clearInterval(clock);
+      clock = null;
+    };
+
+    // Polls until done; used for new jobs and for ones saved before a reload
+    const follow = async (run: (signal: AbortSignal) => Promise<Blob>, videoPrompt: string, since: number) => {
+      controller?.abort();
+      controller = new AbortController();
+      loading.value = true;
+      videoUrl.value = '';
+      notice.value = '';
+      startedAt.value = since;
+      now.value = Date.now();
+      stopClock();
+      clock = setInterval(() => now.value = Date.now(), 1000);
+
+      try {
+        const blob = await run(controller.signal);
+        localStorage.removeItem(PENDING_VIDEO_KEY);
+        videoUrl.value = URL.createObjectURL(blob);
+        keepInGallery({ kind: 'video', source: 'cinema', blob, prompt: videoPrompt, model: MODELS.video });
+      } catch (e) {
+        if (!isCancelled(e)) {
+          localStorage.removeItem(PENDING_VIDEO_KEY);
+          notice.value = errorNotice(e);
+        }
+      } finally {
+        loading.value = false;
+        stopClock();
+      }
+    };
+
+    const generate = async () => {
+      if (!prompt.value && !startImage.value) return;
+      notice.value = '';
+      try {
+        await checkAllowance('cinema', 'videos');
+      } catch (e) {
+        notice.value = errorNotice(e);
+        return;
+      }
+      const videoPrompt = prompt.value;
+      status.value = 'Initializing Veo...';
+      await follow(signal => generateVideo(
+        { prompt: videoPrompt, aspectRatio: aspectRatio.value, image: startImage.value || undefined },
+        {
+          tool: 'cinema',
+          signal,
+          onProgress: (s) => status.value = s,
+          // Veo renders, and costs, from here on even if the wait is cancelled
+          onStarted: (operation) => {
+            recordUsage('videos');
+            localStorage.setItem(PENDING_VIDEO_KEY, JSON.stringify({ operation, prompt: videoPrompt, startedAt: startedAt.value }));
+          },
+        }
+      ), videoPrompt, Date.now());
+    };
+
+    // Veo can't be stopped once started, so cancelling stops waiting and forgets the job
+    const cancel = () => {
+      controller?.abort();
+      localStorage.removeItem(PENDING_VIDEO_KEY);
+      status.value = '';
+      notice.value = 'Stopped. This video will not be saved.';
+    };
+
+    onMounted(() => {
+      const pending = readPendingVideo();
+      if (!pending || loading.value) return;
+      prompt.value = pending.prompt;
+      status.value = 'Picking up your video...';
+      follow(signal => finishVideo(pending.operation, pending.prompt, {
+        tool: 'cinema',
+        signal,
+        onProgress: (s) => status.value = s,
+      }), pending.prompt, pending.startedAt);
+    });
+
+    // Leaving the tab only stops polling; the saved job resumes next time
+    onUnmounted(() => {
+      controller?.abort();
+      stopClock();
+      galleryImages.value.forEach(img => URL.revokeObjectURL(img.url));
+    });
+
+    return {
+      mode, prompt, aspectRatio, loading, videoUrl, status, notice, generate, cancel, elapsed,
+      startImage, onFileChange, pickerOpen, openPicker, galleryImages, pick
+    };
+  },
   template: `
     <div class="h-full flex flex-col gap-4">
+      <div class="flex gap-2 text-sm">
+        <button @click="mode = 'clip'" class="px-3 py-1 rounded-full" :class="mode === 'clip' ? 'bg-purple text-white' : 'bg-white/60 text-slate-600'">🎬 Single clip</button>
+        <button @click="mode = 'movie'" class="px-3 py-1 rounded-full" :class="mode === 'movie' ? 'bg-purple text-white' : 'bg-white/60 text-slate-600'">📜 Script to movie</button>
+      </div>
+      <MovieMaker v-if="mode === 'movie'" />
+      <template v-else>
       <div class="glass-panel p-4 rounded-xl space-y-4">
         <h3 class="font-bold text-purple">Veo Video Generator</h3>
         <div class="flex gap-2">
@@ -519,18 +2247,41 @@ const CinemaTool = defineComponent({
              <option value="16:9">Landscape</option>
              <option value="9:16">Portrait</option>
            </select>
-           <input v-model="prompt" class="flex-1 p-2 rounded-lg bg-white/50 border border-purple/10" placeholder="Describe a video..." />
-           <button @click="generate" :disabled="loading" class="px-4 py-2 bg-purple text-white rounded-lg">Generate</button>
+           <input v-model="prompt" class="flex-1 p-2 rounded-lg bg-white/50 border border-purple/10" :placeholder="startImage ? 'Describe what happens next (optional)...' : 'Describe a video...'" />
+           <button v-if="loading" @click="cancel" title="Stop waiting for this video" class="px-4 py-2 bg-white/70 text-red-500 rounded-lg">Cancel</button>
+           <button v-else @click="generate" :disabled="!prompt && !startImage" class="px-4 py-2 bg-purple text-white rounded-lg disabled:opacity-50">Generate</button>
+        </div>
+        <div class="flex items-center gap-3 text-sm">
+          <div v-if="startImage" class="relative w-16 h-16 rounded-lg overflow-hidden shadow">
+            <img :src="startImage" class="w-full h-full object-cover" />
+            <button @click="startImage = ''" :disabled="loading" title="Remove starting picture" class="absolute top-0 right-0 px-1 bg-black/50 text-white text-xs">✕</button>
+          </div>
+          <span class="text-slate-500">{{ startImage ? 'Video starts from this picture' : 'Start from a picture:' }}</span>
+          <label class="px-3 py-1 rounded-lg bg-white/60 hover:bg-white cursor-pointer" :class="loading ? 'pointer-events-none opacity-50' : ''">
+            📁 Upload
+            <input type="file" accept="image/*" @change="onFileChange" class="hidden" />
+          </label>
+          <button @click="openPicker" :disabled="loading" class="px-3 py-1 rounded-lg bg-white/60 hover:bg-white disabled:opacity-50">🖼️ From gallery</button>
+        </div>
+        <div v-if="pickerOpen" class="flex gap-2 overflow-x-auto pb-1">
+          <div v-if="!galleryImages.length" class="text-sm text-slate-400">No pictures in the gallery yet.</div>
+          <button v-for="img in galleryImages" :key="img.id" @click="pick(img.asset)" :title="img.asset.prompt"
+            class="shrink-0 w-16 h-16 rounded-lg overflow-hidden hover:ring-2 ring-purple">
+            <img :src="img.url" class="w-full h-full object-cover" />
+          </button>
         </div>
       </div>
       <div class="flex-1 bg-black/5 rounded-xl flex items-center justify-center relative overflow-hidden">
         <video v-if="videoUrl" :src="videoUrl" controls loop autoplay class="max-w-full max-h-full rounded-lg"></video>
         <div v-else-if="loading" class="text-center space-y-2">
            <div class="w-8 h-8 border-2 border-purple border-t-transparent rounded-full animate-spin mx-auto"></div>
-           <p class="text-slate-500 font-mono text-sm">{{ status }}</p>
+           <p class="text-slate-500 font-mono text-sm">{{ status }} {{ elapsed }}</p>
+           <p class="text-slate-400 text-xs">Videos usually take one to three minutes.</p>
         </div>
+        <div v-else-if="notice" class="max-w-md p-4 rounded-xl bg-purple/10 text-purple text-center font-medium">{{ notice }}</div>
         <div v-else class="text-slate-400">Video output area</div>
       </div>
+      </template>
       <div class="text-xs text-slate-400 text-center">Powered by Veo 3.1 Fast</div>
     </div>
   `
@@ -538,11 +2289,19 @@ const CinemaTool = defineComponent({
 
 const LensTool = defineComponent({
   setup() {
-    const analysis = ref('');
     const loading = ref(false);
     const videoRef = ref<HTMLVideoElement>();
     const stream = ref<MediaStream>();
     const capturedImage = ref('');
+    const question = ref('');
+    // Structured mode asks for JSON with object boxes to draw over the capture
+    const showBoxes = ref(true);
+    const objects = ref<DetectedObject[]>([]);
+    const highlighted = ref(-1);
+    // Question and answers about the current capture; the first turn carries the image
+    const chat = ref<ChatTurn[]>([]);
+    const followUp = ref('');
+    const notice = ref('');
 
     onMounted(async () => {
       try {
@@ -553,43 +2312,107 @@ const LensTool = defineComponent({
       }
     });
 
+    let controller: AbortController | null = null;
+
     onUnmounted(() => {
       stream.value?.getTracks().forEach(t => t.stop());
+      controller?.abort();
     });
 
+    const analyze = async () => {
+      if (!capturedImage.value) return;
+      controller?.abort();
+      controller = new AbortController();
+      const ask = question.value.trim() || DEFAULT_LENS_QUESTION;
+      loading.value = true;
+      notice.value = '';
+      objects.value = [];
+      chat.value = [{ role: 'user', text: ask }];
+
+      try {
+        await checkAllowance('lens');
+        let notes: string;
+        if (showBoxes.value) {
+          const raw = await generateJson(
+            { prompt: lensPrompt(ask), schema: LENS_SCHEMA, image: capturedImage.value },
+            { tool: 'lens', signal: controller.signal }
+          );
+          const result = normalizeLensAnalysis(raw);
+          objects.value = result.objects;
+          notes = result.answer || result.objects.map(o => o.label).join(', ');
+        } else {
+          notes = await analyzeImage({ image: capturedImage.value, prompt: ask }, { tool: 'lens', signal: controller.signal });
+        }
+        chat.value = [...chat.value, { role: 'model', text: notes }];
+        recordUsage('analyses');
+        keepInGallery({ kind: 'image', source: 'lens', dataUrl: capturedImage.value, prompt: ask, model: MODELS.vision, notes });
+      } catch (e) {
+        if (isCancelled(e)) return;
+        chat.value = [];
+        notice.value = errorNotice(e);
+      } finally {
+        loading.value = false;
+      }
+    };
+
     const captureAndAnalyze = async () => {
-      if (!videoRef.value) return;
-      
+      const video = videoRef.value;
+      if (!video?.videoWidth) return;
       const canvas = document.createElement('canvas');
-      canvas.width = videoRef.value.videoWidth;
-      canvas.height = videoRef.value.videoHeight;
-      canvas.getContext('2d')?.drawImage(videoRef.value, 0, 0);
-      const base64 = canvas.toDataURL('image/jpeg').split(',')[1];
-      capturedImage.value = canvas.toDataURL('image/jpeg');
-      
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      canvas.getContext('2d')?.drawImage(video, 0, 0);
+      capturedImage.value = await prepareImage(canvas.toDataURL('image/jpeg'));
+      analyze();
+    };
+
+    const onFileChange = async (e: Event) => {
+      const input = e.target as HTMLInputElement;
+      const file = input.files?.[0];
+      input.value = '';
+      if (!file) return;
+      try {
+        capturedImage.value = await prepareImage(await blobToDataUrl(file));
+        analyze();
+      } catch (err) {
+        notice.value = errorNotice(err);
+      }
+    };
+
+    const askFollowUp = async () => {
+      const text = followUp.value.trim();
+      if (!text || !capturedImage.value || loading.value) return;
+      controller?.abort();
+      controller = new AbortController();
+      const history = chat.value;
+      chat.value = [...history, { role: 'user', text }];
+      followUp.value = '';
       loading.value = true;
-      analysis.value = '';
-      
+      notice.value = '';
       try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        const resp = await ai.models.generateContent({
-          model: 'gemini-3-pro-preview',
-          contents: {
-            parts: [
-              { inlineData: { mimeType: 'image/jpeg', data: base64 } },
-              { text: 'Analyze this image in detail. Describe what you see, identify objects, and explain the context.' }
-            ]
-          }
-        });
-        analysis.value = resp.text || 'No analysis available.';
+        await checkAllowance('lens');
+        const answer = await analyzeImage({ image: capturedImage.value, prompt: text, history }, { tool: 'lens', signal: controller.signal });
+        chat.value = [...chat.value, { role: 'model', text: answer }];
+        recordUsage('analyses');
       } catch (e) {
-        analysis.value = 'Error analyzing image.';
+        if (isCancelled(e)) return;
+        // Put the question back so it can be asked again
+        chat.value = history;
+        followUp.value = text;
+        notice.value = errorNotice(e);
       } finally {
         loading.value = false;
       }
     };
 
-    return { videoRef, analysis, loading, captureAndAnalyze, capturedImage };
+    const boxStyle = (o: DetectedObject) => ({
+      left: `${o.x * 100}%`, top: `${o.y * 100}%`, width: `${o.width * 100}%`, height: `${o.height * 100}%`,
+    });
+
+    return {
+      videoRef, loading, captureAndAnalyze, capturedImage, question, showBoxes, objects, highlighted,
+      chat, followUp, notice, onFileChange, askFollowUp, boxStyle, defaultQuestion: DEFAULT_LENS_QUESTION
+    };
   },
   template: `
     <div class="h-full flex gap-4">
@@ -597,76 +2420,258 @@ const LensTool = defineComponent({
          <div class="relative flex-1 bg-black rounded-xl overflow-hidden">
             <video ref="videoRef" autoplay playsinline muted class="absolute inset-0 w-full h-full object-cover"></video>
             <div class="absolute bottom-4 left-0 right-0 flex justify-center">
-               <button @click="captureAndAnalyze" class="w-16 h-16 bg-white rounded-full border-4 border-slate-200 shadow-lg hover:scale-105 transition-transform"></button>
+               <button @click="captureAndAnalyze" :disabled="loading" title="Take a picture" class="w-16 h-16 bg-white rounded-full border-4 border-slate-200 shadow-lg hover:scale-105 transition-transform disabled:opacity-50"></button>
             </div>
          </div>
+         <input v-model="question" :placeholder="defaultQuestion" class="p-2 rounded-lg border border-slate-200 text-sm" title="Your question about the picture" />
+         <div class="flex items-center gap-3 text-sm">
+            <label class="px-3 py-1 rounded-lg bg-white/60 hover:bg-white cursor-pointer" :class="loading ? 'pointer-events-none opacity-50' : ''">
+              📁 Upload
+              <input type="file" accept="image/*" @change="onFileChange" class="hidden" />
+            </label>
+            <label class="flex items-center gap-1 text-slate-600 cursor-pointer">
+              <input type="checkbox" v-model="showBoxes" /> 📦 Show boxes
+            </label>
+         </div>
       </div>
-      <div class="w-1/2 flex flex-col gap-4">
-         <div class="h-1/3 bg-slate-100 rounded-xl overflow-hidden border border-white">
-            <img v-if="capturedImage" :src="capturedImage" class="w-full h-full object-cover" />
-            <div v-else class="w-full h-full flex items-center justify-center text-slate-400">No Capture</div>
+      <div class="w-1/2 flex flex-col gap-4 min-h-0">
+         <div class="bg-slate-100 rounded-xl overflow-hidden border border-white flex items-center justify-center" :class="capturedImage ? '' : 'h-1/3'">
+            <div v-if="capturedImage" class="relative inline-block">
+              <img :src="capturedImage" class="block max-h-64 w-auto" />
+              <div v-for="(o, i) in objects" :key="i" :style="boxStyle(o)" @mouseenter="highlighted = i" @mouseleave="highlighted = -1"
+                :class="['absolute border-2 rounded', highlighted === i ? 'border-yellow-300 bg-yellow-300/20' : 'border-purple']">
+                <span class="absolute -top-5 left-0 px-1 rounded bg-purple text-white text-xs whitespace-nowrap">{{ o.label }}</span>
+              </div>
+            </div>
+            <div v-else class="text-slate-400">No Capture</div>
          </div>
-         <div class="flex-1 glass-panel p-4 rounded-xl overflow-y-auto font-mono text-sm leading-relaxed whitespace-pre-wrap">
+         <div v-if="objects.length" class="flex flex-wrap gap-1">
+            <span v-for="(o, i) in objects" :key="i" @mouseenter="highlighted = i" @mouseleave="highlighted = -1"
+              :class="['px-2 py-0.5 rounded-full text-xs cursor-default', highlighted === i ? 'bg-yellow-300' : 'bg-white/70']">{{ o.label }}</span>
+         </div>
+         <div class="flex-1 glass-panel p-4 rounded-xl overflow-y-auto text-sm leading-relaxed space-y-3">
+            <div v-if="!chat.length && !loading && !notice" class="text-slate-400">Ready to scan.</div>
+            <div v-for="(turn, i) in chat" :key="i" :class="turn.role === 'user' ? 'text-right' : ''">
+              <div :class="['inline-block px-3 py-2 rounded-xl whitespace-pre-wrap text-left', turn.role === 'user' ? 'bg-purple text-white' : 'bg-white/80 font-mono']">{{ turn.text }}</div>
+            </div>
             <div v-if="loading" class="animate-pulse">Analyzing visual data...</div>
-            <div v-else>{{ analysis || 'Ready to scan.' }}</div>
+            <div v-if="notice" class="p-3 rounded-xl bg-purple/10 text-purple font-medium">{{ notice }}</div>
          </div>
+         <form v-if="chat.length > 1 || followUp" @submit.prevent="askFollowUp" class="flex gap-2">
+            <input v-model="followUp" placeholder="Ask more about this picture..." class="flex-1 p-2 rounded-lg border border-slate-200 text-sm" />
+            <button type="submit" :disabled="loading || !followUp.trim()" class="px-4 py-2 bg-purple text-white rounded-lg disabled:opacity-50">Ask</button>
+         </form>
       </div>
     </div>
   `
 });
 
+interface ScoutTurn extends ChatTurn {
+  // Answers only: rendered Markdown with citation links, and the sources they point to
+  html?: string;
+  sources?: SearchSource[];
+  // Maps answers: the places as cards, with an estimated distance once geocoded
+  places?: (Place & { distance?: string })[];
+}
+
 const ScoutTool = defineComponent({
   setup() {
     const query = ref('');
     const useMaps = ref(false);
-    const results = ref<{text: string, chunks: any[]}>({ text: '', chunks: [] });
+    const turns = ref<ScoutTurn[]>([]);
     const loading = ref(false);
+    const history = ref<SearchHistoryEntry[]>(loadSearchHistory());
+    const historyOpen = ref(false);
+    const historyFilter = ref('');
+    const chatLog = ref<HTMLElement>();
+    const savedPlaces = ref<Place[]>(loadSavedPlaces());
+    const savedOpen = ref(false);
+    // Maps searches run near the device position, or a typed city when that's denied
+    const searchLocation = ref<SearchLocation | null>(null);
+    const askCity = ref(false);
+    const cityInput = ref(loadSearchCity()?.label || '');
+    const locating = ref(false);
 
-    const search = async () => {
-      if (!query.value) return;
-      loading.value = true;
+    const notice = ref('');
+    let controller: AbortController | null = null;
+    let cityController: AbortController | null = null;
+
+    const savedIds = computed(() => new Set(savedPlaces.value.map(p => p.id)));
+
+    const locate = async (): Promise<SearchLocation | null> => {
+      if (searchLocation.value) return searchLocation.value;
       try {
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-        
-        // Get location for maps
-        let location = undefined;
-        if (useMaps.value) {
-           try {
-             const pos = await new Promise<GeolocationPosition>((resolve, reject) => {
-               navigator.geolocation.getCurrentPosition(resolve, reject);
-             });
-             location = {
-               latitude: pos.coords.latitude,
-               longitude: pos.coords.longitude
-             };
-           } catch (e) { console.warn('Location denied'); }
+        const pos = await new Promise<GeolocationPosition>((resolve, reject) => {
+          navigator.geolocation.getCurrentPosition(resolve, reject, { timeout: 10000 });
+        });
+        searchLocation.value = {
+          label: 'your location',
+          coords: { latitude: pos.coords.latitude, longitude: pos.coords.longitude }
+        };
+      } catch (e) {
+        console.warn('Location denied');
+        searchLocation.value = loadSearchCity();
+        if (!searchLocation.value) askCity.value = true;
+      }
+      return searchLocation.value;
+    };
+
+    // Geocoding lookups aren't added to the searches tally: the parent's usage
+    // page counts questions the child asked, and this one is asked for them
+    const setCity = async () => {
+      const city = cityInput.value.trim();
+      if (!city || locating.value) return;
+      // Its own controller, so looking up a city doesn't cancel a search in progress
+      cityController?.abort();
+      cityController = new AbortController();
+      locating.value = true;
+      notice.value = '';
+      try {
+        await checkAllowance('scout');
+        const raw = await generateJson(
+          { prompt: geocodePrompt([city]), schema: GEOCODE_SCHEMA },
+          { tool: 'scout', signal: cityController.signal }
+        );
+        const [coords] = readGeocodes(raw, 1);
+        if (!coords) {
+          notice.value = `Sadie couldn't find ${city}. Try adding the state or country, like "McKinney, TX".`;
+          return;
         }
+        searchLocation.value = { label: city, coords };
+        saveSearchCity(searchLocation.value);
+        askCity.value = false;
+        if (query.value.trim()) search();
+      } catch (e) {
+        if (!isCancelled(e)) notice.value = errorNotice(e);
+      } finally {
+        locating.value = false;
+      }
+    };
 
-        const tools = useMaps.value ? [{ googleMaps: {} }] : [{ googleSearch: {} }];
-        const toolConfig = location ? { retrievalConfig: { latLng: location } } : undefined;
+    const changeCity = () => {
+      askCity.value = true;
+      cityInput.value = searchLocation.value?.label === 'your location' ? '' : searchLocation.value?.label || '';
+    };
 
-        const resp = await ai.models.generateContent({
-          model: 'gemini-2.5-flash',
-          contents: query.value,
-          config: {
-            tools,
-            toolConfig: toolConfig as any
-          }
-        });
-        
-        results.value = {
-          text: resp.text || '',
-          chunks: resp.candidates?.[0]?.groundingMetadata?.groundingChunks || []
+    // Fills in distances after the answer is shown; a failed lookup just leaves
+    // them out. Part of the search that was already counted.
+    const addDistances = async (turn: ScoutTurn, near: SearchLocation, signal: AbortSignal) => {
+      const places = turn.places || [];
+      if (!places.length) return;
+      try {
+        await checkAllowance('scout');
+        const raw = await generateJson(
+          { prompt: geocodePrompt(places.map(p => p.name), near.label === 'your location' ? undefined : near.label), schema: GEOCODE_SCHEMA },
+          { tool: 'scout', signal }
+        );
+        const coords = readGeocodes(raw, places.length);
+        turn.places = places.map((p, i) => coords[i]
+          ? { ...p, location: coords[i], distance: formatDistance(distanceKm(near.coords, coords[i]!)) }
+          : p);
+        turns.value = [...turns.value];
+      } catch (e) {
+        if (!isCancelled(e)) console.warn('Could not estimate distances', e);
+      }
+    };
+
+    const toggleSaved = (place: Place) => {
+      const { id, name, uri, text, reviews, location } = place;
+      savedPlaces.value = savedIds.value.has(id) ? removeSavedPlace(id) : savePlace({ id, name, uri, text, reviews, location });
+    };
+
+    const filteredHistory = computed(() => {
+      const q = historyFilter.value.trim().toLowerCase();
+      return q ? history.value.filter(e => e.query.toLowerCase().includes(q)) : history.value;
+    });
+
+    const search = async () => {
+      const text = query.value.trim();
+      if (!text || loading.value) return;
+      let location: SearchLocation | null = null;
+      if (useMaps.value) {
+        location = await locate();
+        if (!location) {
+          notice.value = "Sadie can't see where you are. Type your city to search nearby.";
+          return;
+        }
+      }
+      controller?.abort();
+      controller = new AbortController();
+      const { signal } = controller;
+      const previous = turns.value;
+      turns.value = [...previous, { role: 'user', text }];
+      query.value = '';
+      loading.value = true;
+      notice.value = '';
+      try {
+        await checkAllowance('scout');
+
+        const result = await groundedSearch(
+          {
+            query: text, useMaps: useMaps.value, location: location?.coords,
+            history: previous.map(({ role, text }) => ({ role, text }))
+          },
+          { tool: 'scout', signal }
+        );
+        // Markers are numbered by chunk, so keep the chunk order even if some have no link
+        const sources = result.chunks.map(chunkSource);
+        const html = renderMarkdown(addCitations(result.text, result.supports), sources);
+        const places = result.chunks.map(placeFromChunk).filter((p): p is Place => !!p);
+        const answer: ScoutTurn = {
+          role: 'model', text: result.text, html, places,
+          // Maps sources are shown as place cards instead
+          sources: sources.filter((s): s is SearchSource => s?.kind === 'web'),
         };
+        turns.value = [...turns.value, answer];
+        if (location) addDistances(answer, location, signal);
+        if (!previous.length) history.value = addSearchHistory(text, useMaps.value);
+        recordUsage('searches');
       } catch (e) {
-        console.error(e);
-        results.value.text = 'Search failed.';
+        if (isCancelled(e)) return;
+        // Put the question back so it can be asked again
+        turns.value = previous;
+        query.value = text;
+        notice.value = errorNotice(e);
       } finally {
         loading.value = false;
       }
+      await nextTick();
+      chatLog.value?.scrollTo({ top: chatLog.value.scrollHeight, behavior: 'smooth' });
+    };
+
+    const newChat = () => {
+      controller?.abort();
+      loading.value = false;
+      turns.value = [];
+      notice.value = '';
+    };
+
+    const searchAgain = (entry: SearchHistoryEntry) => {
+      newChat();
+      historyOpen.value = false;
+      query.value = entry.query;
+      useMaps.value = entry.useMaps;
+      search();
+    };
+
+    const removeHistory = (entry: SearchHistoryEntry) => {
+      history.value = deleteSearchHistory(entry.id);
+    };
+
+    const clearHistory = () => {
+      if (confirm('Delete all past searches?')) history.value = clearSearchHistory();
     };
 
-    return { query, useMaps, results, loading, search };
+    onUnmounted(() => {
+      controller?.abort();
+      cityController?.abort();
+    });
+
+    return {
+      query, useMaps, turns, loading, notice, search, newChat, chatLog,
+      history, historyOpen, historyFilter, filteredHistory, searchAgain, removeHistory, clearHistory,
+      savedPlaces, savedOpen, savedIds, toggleSaved, searchLocation, askCity, cityInput, locating, setCity, changeCity
+    };
   },
   template: `
     <div class="h-full flex flex-col gap-4">
@@ -674,33 +2679,380 @@ const ScoutTool = defineComponent({
          <button @click="useMaps = !useMaps" class="p-2 rounded-lg transition-colors" :class="useMaps ? 'bg-green-100 text-green-700' : 'bg-blue-100 text-blue-700'">
             {{ useMaps ? '📍 Maps' : '🔍 Search' }}
          </button>
-         <input v-model="query" @keyup.enter="search" placeholder="Search for anything..." class="flex-1 bg-transparent focus:outline-none px-2" />
-         <button @click="search" class="bg-purple text-white px-4 rounded-lg">Go</button>
+         <input v-model="query" @keyup.enter="search" :placeholder="turns.length ? 'Ask a follow-up question...' : 'Search for anything...'" class="flex-1 bg-transparent focus:outline-none px-2" />
+         <button @click="search" :disabled="loading" class="bg-purple text-white px-4 rounded-lg disabled:opacity-50">Go</button>
+         <button v-if="turns.length" @click="newChat" title="Start a new search" class="px-3 rounded-lg bg-white/60 hover:bg-white">✨ New</button>
+         <button @click="historyOpen = !historyOpen" title="Past searches" class="px-3 rounded-lg" :class="historyOpen ? 'bg-white' : 'bg-white/60 hover:bg-white'">🕘</button>
+         <button @click="savedOpen = !savedOpen" title="Saved places" class="px-3 rounded-lg" :class="savedOpen ? 'bg-white' : 'bg-white/60 hover:bg-white'">⭐</button>
+      </div>
+
+      <div v-if="useMaps" class="flex items-center gap-2 text-sm text-slate-600">
+         <template v-if="askCity">
+            <span>📍 Near:</span>
+            <input v-model="cityInput" @keyup.enter="setCity" placeholder="Your city, like McKinney, TX" class="flex-1 p-2 rounded-lg border border-slate-200" />
+            <button @click="setCity" :disabled="locating || !cityInput.trim()" class="px-3 py-2 rounded-lg bg-green-100 text-green-700 disabled:opacity-50">{{ locating ? 'Finding...' : 'Use city' }}</button>
+         </template>
+         <template v-else>
+            <span>📍 Near {{ searchLocation?.label || 'your location' }}</span>
+            <button @click="changeCity" class="text-xs text-purple hover:underline">change</button>
+         </template>
+      </div>
+
+      <div v-if="savedOpen" class="glass-panel p-4 rounded-xl space-y-2 max-h-64 overflow-y-auto">
+         <div v-if="!savedPlaces.length" class="text-sm text-slate-400">No saved places yet. Tap ☆ on a place to keep it here.</div>
+         <div v-for="place in savedPlaces" :key="place.id" class="flex items-center gap-2 text-sm">
+            <a :href="place.uri" target="_blank" rel="noopener noreferrer" class="flex-1 p-2 rounded-lg bg-white/50 hover:bg-white truncate text-green-600">📍 {{ place.name }}</a>
+            <button @click="toggleSaved(place)" title="Remove" class="px-2 text-slate-400 hover:text-red-500">✕</button>
+         </div>
+      </div>
+
+      <div v-if="historyOpen" class="glass-panel p-4 rounded-xl space-y-2 max-h-64 overflow-y-auto">
+         <div class="flex items-center gap-2">
+            <input v-model="historyFilter" placeholder="Find a past search..." class="flex-1 p-2 rounded-lg border border-slate-200 text-sm" />
+            <button v-if="history.length" @click="clearHistory" class="px-2 py-1 rounded-lg text-xs text-red-500 hover:bg-red-50">Clear all</button>
+         </div>
+         <div v-if="!filteredHistory.length" class="text-sm text-slate-400">{{ history.length ? 'No matches.' : 'No searches yet.' }}</div>
+         <div v-for="entry in filteredHistory" :key="entry.id" class="flex items-center gap-2 text-sm">
+            <button @click="searchAgain(entry)" class="flex-1 flex items-center gap-2 p-2 rounded-lg bg-white/50 hover:bg-white text-left truncate">
+               <span>{{ entry.useMaps ? '📍' : '🔍' }}</span>
+               <span class="flex-1 truncate">{{ entry.query }}</span>
+               <span class="text-xs text-slate-400">{{ new Date(entry.createdAt).toLocaleDateString() }}</span>
+            </button>
+            <button @click="removeHistory(entry)" title="Delete" class="px-2 text-slate-400 hover:text-red-500">✕</button>
+         </div>
       </div>
       
-      <div class="flex-1 glass-panel p-6 rounded-xl overflow-y-auto">
+      <div ref="chatLog" class="flex-1 glass-panel p-6 rounded-xl overflow-y-auto space-y-4">
+         <div v-if="!turns.length && !loading && !notice" class="text-slate-400">Ask anything, then keep asking follow-up questions.</div>
+         <template v-for="(turn, i) in turns" :key="i">
+            <div v-if="turn.role === 'user'" class="text-right">
+               <div class="inline-block px-3 py-2 rounded-xl bg-purple text-white text-left">{{ turn.text }}</div>
+            </div>
+            <div v-else>
+               <div class="markdown" v-html="turn.html"></div>
+               <div v-if="turn.places?.length" class="mt-3 grid gap-2 sm:grid-cols-2">
+                  <div v-for="place in turn.places" :key="place.id" class="p-3 rounded-xl bg-white/60 space-y-1 text-sm">
+                     <div class="flex items-start gap-2">
+                        <a :href="place.uri" target="_blank" rel="noopener noreferrer" class="flex-1 font-bold text-green-600 hover:underline">📍 {{ place.name }}</a>
+                        <button @click="toggleSaved(place)" :title="savedIds.has(place.id) ? 'Remove from saved places' : 'Save this place'" class="text-lg leading-none">
+                           {{ savedIds.has(place.id) ? '★' : '☆' }}
+                        </button>
+                     </div>
+                     <div v-if="place.distance" class="text-xs text-slate-500">{{ place.distance }} away</div>
+                     <p v-if="place.text" class="text-slate-600">{{ place.text }}</p>
+                     <blockquote v-for="(review, k) in place.reviews.slice(0, 2)" :key="k" class="pl-2 border-l-2 border-green/40 italic text-slate-500">"{{ review }}"</blockquote>
+                  </div>
+               </div>
+               <!-- Sources / Chunks -->
+               <div v-if="turn.sources?.length" class="mt-3 pt-3 border-t border-purple/10">
+                  <h4 class="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Sources</h4>
+                  <div class="grid gap-2 text-sm">
+                     <a v-for="(source, j) in turn.sources" :key="j" :href="source.uri" target="_blank" rel="noopener noreferrer"
+                        :class="['block p-2 bg-white/50 rounded hover:bg-white transition-colors truncate', source.kind === 'maps' ? 'text-green-600' : 'text-blue-600']">
+                        {{ source.kind === 'maps' ? '📍 ' : '' }}{{ source.title }}
+                     </a>
+                  </div>
+               </div>
+            </div>
+         </template>
          <div v-if="loading" class="space-y-2">
             <div class="h-4 bg-slate-200 rounded w-3/4 animate-pulse"></div>
             <div class="h-4 bg-slate-200 rounded w-1/2 animate-pulse"></div>
          </div>
-         <div v-else class="prose max-w-none">
-            <div class="whitespace-pre-wrap">{{ results.text }}</div>
-            
-            <!-- Sources / Chunks -->
-            <div v-if="results.chunks.length" class="mt-6 pt-4 border-t border-purple/10">
-               <h4 class="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Sources</h4>
-               <div class="grid gap-2 text-sm">
-                  <template v-for="(chunk, i) in results.chunks" :key="i">
-                     <a v-if="chunk.web?.uri" :href="chunk.web.uri" target="_blank" class="block p-2 bg-white/50 rounded hover:bg-white transition-colors truncate text-blue-600">
-                        {{ chunk.web.title || chunk.web.uri }}
-                     </a>
-                     <a v-if="chunk.maps?.uri" :href="chunk.maps.uri" target="_blank" class="block p-2 bg-white/50 rounded hover:bg-white transition-colors truncate text-green-600">
-                        📍 {{ chunk.maps.title || 'Location Result' }}
-                     </a>
-                  </template>
-               </div>
+         <div v-if="notice" class="p-4 rounded-xl bg-purple/10 text-purple font-medium">{{ notice }}</div>
+      </div>
+    </div>
+  `
+});
+
+const GalleryTool = defineComponent({
+  emits: ['send'],
+  setup(_, { emit }) {
+    const assets = ref<GalleryAsset[]>([]);
+    const urls = ref<Record<string, string>>({});
+    const query = ref('');
+    const loading = ref(true);
+    const selected = ref<GalleryAsset | null>(null);
+
+    const filtered = computed(() => assets.value.filter(a => matchesSearch(a, query.value)));
+
+    const load = async () => {
+      loading.value = true;
+      try {
+        assets.value = await listAssets();
+        for (const a of assets.value) {
+          if (!urls.value[a.id]) urls.value[a.id] = URL.createObjectURL(a.blob);
+        }
+      } catch (e) {
+        console.error(e);
+      } finally {
+        loading.value = false;
+      }
+    };
+
+    const remove = async (asset: GalleryAsset) => {
+      if (!confirm('Delete this from your gallery?')) return;
+      await deleteAsset(asset.id);
+      URL.revokeObjectURL(urls.value[asset.id]);
+      delete urls.value[asset.id];
+      assets.value = assets.value.filter(a => a.id !== asset.id);
+      if (selected.value?.id === asset.id) selected.value = null;
+    };
+
+    const download = (asset: GalleryAsset) => {
+      downloadBlob(asset.blob, `sadie-${asset.source}-${asset.createdAt}.${assetExtension(asset)}`);
+    };
+
+    const send = (asset: GalleryAsset, target: 'editor' | 'cinema') => emit('send', asset, target);
+
+    onMounted(load);
+    onUnmounted(() => Object.values(urls.value).forEach(u => URL.revokeObjectURL(u)));
+
+    return { filtered, urls, query, loading, selected, remove, download, send };
+  },
+  template: `
+    <div class="h-full flex flex-col gap-4">
+      <div class="flex gap-2 bg-white/40 p-2 rounded-xl">
+        <input v-model="query" placeholder="Search your creations..." class="flex-1 bg-transparent focus:outline-none px-2" />
+        <span class="text-xs text-slate-400 self-center px-2">{{ filtered.length }} items</span>
+      </div>
+      <div v-if="loading" class="flex-1 flex items-center justify-center text-slate-400 animate-pulse">Loading gallery...</div>
+      <div v-else-if="!filtered.length" class="flex-1 flex items-center justify-center text-slate-400">
+        {{ query ? 'Nothing matches your search' : 'Things you make in Studio, Editor, Cinema and Lens show up here' }}
+      </div>
+      <div v-else class="grid grid-cols-2 md:grid-cols-4 gap-4 overflow-y-auto">
+        <div v-for="asset in filtered" :key="asset.id" class="glass-panel rounded-xl overflow-hidden flex flex-col">
+          <button @click="selected = asset" class="aspect-square bg-slate-100">
+            <video v-if="asset.kind === 'video'" :src="urls[asset.id]" muted loop class="w-full h-full object-cover" @mouseenter="$event.target.play()" @mouseleave="$event.target.pause()"></video>
+            <img v-else :src="urls[asset.id]" class="w-full h-full object-cover" />
+          </button>
+          <div class="p-2 space-y-1 text-xs">
+            <p class="truncate font-medium text-slate-700" :title="asset.prompt">{{ asset.prompt || 'Untitled' }}</p>
+            <p class="text-slate-400">{{ asset.source }} · {{ new Date(asset.createdAt).toLocaleDateString() }}</p>
+            <div class="flex flex-wrap gap-1 pt-1">
+              <button v-if="asset.kind === 'image'" @click="send(asset, 'editor')" class="px-2 py-1 rounded bg-white/60 hover:bg-white">🍌 Edit</button>
+              <button @click="send(asset, 'cinema')" class="px-2 py-1 rounded bg-white/60 hover:bg-white">🎬 Cinema</button>
+              <button @click="download(asset)" class="px-2 py-1 rounded bg-white/60 hover:bg-white">⬇️</button>
+              <button @click="remove(asset)" class="px-2 py-1 rounded text-red-500 hover:bg-red-50">🗑️</button>
             </div>
-         </div>
+          </div>
+        </div>
+      </div>
+      <div v-if="selected" class="fixed inset-0 z-50 bg-slate-900/60 flex items-center justify-center p-6" @click.self="selected = null">
+        <div class="bg-white rounded-2xl p-4 max-w-3xl w-full space-y-3">
+          <video v-if="selected.kind === 'video'" :src="urls[selected.id]" controls autoplay class="w-full max-h-[60vh] rounded-lg"></video>
+          <img v-else :src="urls[selected.id]" class="w-full max-h-[60vh] object-contain rounded-lg" />
+          <p class="text-sm text-slate-700">{{ selected.prompt }}</p>
+          <p v-if="selected.notes" class="text-xs text-slate-500 whitespace-pre-wrap max-h-32 overflow-y-auto">{{ selected.notes }}</p>
+          <p class="text-xs font-mono text-slate-400">{{ selected.model }} · {{ new Date(selected.createdAt).toLocaleString() }}</p>
+        </div>
+      </div>
+    </div>
+  `
+});
+
+const SafetyPanel = defineComponent({
+  setup() {
+    const entries = ref<SafetyLogEntry[]>([]);
+    const config = getSafetyConfig();
+    const blocklist = ref(config.blocklist.join('\n'));
+    const allowlist = ref(config.allowlist.join('\n'));
+    const saved = ref(false);
+
+    const load = async () => {
+      entries.value = await listSafetyLog().catch(() => []);
+    };
+
+    const save = () => {
+      setSafetyConfig({ blocklist: blocklist.value.split('\n'), allowlist: allowlist.value.split('\n') });
+      saved.value = true;
+      setTimeout(() => saved.value = false, 2000);
+    };
+
+    const clear = async () => {
+      if (!confirm('Clear the whole safety log?')) return;
+      await clearSafetyLog();
+      entries.value = [];
+    };
+
+    onMounted(load);
+
+    return { entries, blocklist, allowlist, saved, save, clear };
+  },
+  template: `
+      <div class="space-y-4">
+        <div class="grid md:grid-cols-2 gap-4">
+          <label class="block space-y-1">
+            <span class="text-sm font-bold text-slate-600">Also block (one per line)</span>
+            <textarea v-model="blocklist" rows="4" class="w-full p-2 rounded-lg bg-white/50 border border-slate-200 text-sm font-mono"></textarea>
+          </label>
+          <label class="block space-y-1">
+            <span class="text-sm font-bold text-slate-600">Always allow (one per line)</span>
+            <textarea v-model="allowlist" rows="4" class="w-full p-2 rounded-lg bg-white/50 border border-slate-200 text-sm font-mono"></textarea>
+          </label>
+        </div>
+        <div class="flex justify-end gap-2 items-center">
+          <span v-if="saved" class="text-sm text-green">Saved</span>
+          <button @click="save" class="px-4 py-2 bg-purple text-white rounded-lg font-bold">Save lists</button>
+        </div>
+        <div class="space-y-2">
+          <div class="flex items-center justify-between">
+            <h3 class="text-sm font-bold text-slate-600 uppercase tracking-wider">Blocked requests</h3>
+            <button v-if="entries.length" @click="clear" class="text-xs text-red-500 hover:underline">Clear log</button>
+          </div>
+          <div v-if="!entries.length" class="text-sm text-slate-400">Nothing has been blocked.</div>
+          <div v-for="entry in entries" :key="entry.id" class="p-3 rounded-lg bg-white/60 text-sm space-y-1">
+            <div class="flex justify-between text-xs text-slate-500">
+              <span>{{ entry.tool }} · {{ entry.stage }} · <b>{{ entry.category }}</b><template v-if="entry.term"> ({{ entry.term }})</template></span>
+              <span>{{ new Date(entry.at).toLocaleString() }}</span>
+            </div>
+            <p class="text-slate-700 break-words">{{ entry.text }}</p>
+          </div>
+        </div>
+      </div>
+  `
+});
+
+const PARENT_TOOLS: { id: ParentTool; label: string }[] = [
+  { id: 'sadie', label: '✨ Sadie voice chat' },
+  { id: 'studio', label: '🎨 Studio' },
+  { id: 'editor', label: '🍌 Editor' },
+  { id: 'cinema', label: '🎬 Cinema' },
+  { id: 'lens', label: '👁️ Lens' },
+  { id: 'scout', label: '🧭 Scout (web and maps search)' },
+];
+
+const ParentPanel = defineComponent({
+  components: { SafetyPanel },
+  emits: ['close'],
+  setup() {
+    const unlocked = ref(false);
+    const pin = ref('');
+    const pinConfirm = ref('');
+    const pinError = ref('');
+    const section = ref<'tools' | 'usage' | 'safety'>('tools');
+    const settings = ref({ ...parentSettings.value, disabledTools: [...parentSettings.value.disabledTools] });
+    const usage = ref<DailyUsage[]>([]);
+    const saved = ref(false);
+    const hasPin = computed(() => !!parentSettings.value.pinHash);
+
+    const unlock = async () => {
+      pinError.value = '';
+      if (!hasPin.value) {
+        if (!/^\d{4,8}$/.test(pin.value)) return pinError.value = 'Use 4 to 8 digits.';
+        if (pin.value !== pinConfirm.value) return pinError.value = 'The PINs do not match.';
+        await setPin(pin.value);
+      } else if (!await verifyPin(pin.value)) {
+        pin.value = '';
+        return pinError.value = 'Wrong PIN.';
+      }
+      pin.value = pinConfirm.value = '';
+      settings.value = { ...parentSettings.value, disabledTools: [...parentSettings.value.disabledTools] };
+      usage.value = await listUsage().catch(() => []);
+      unlocked.value = true;
+    };
+
+    const toggleTool = (tool: ParentTool) => {
+      const list = settings.value.disabledTools;
+      settings.value.disabledTools = list.includes(tool) ? list.filter(t => t !== tool) : [...list, tool];
+    };
+
+    // Empty inputs mean no limit
+    const limitValue = (v: unknown) => v === '' || v === null || v === undefined ? null : Math.max(0, Number(v));
+
+    const save = () => {
+      saveParentSettings({
+        ...settings.value,
+        liveMinutesPerDay: limitValue(settings.value.liveMinutesPerDay),
+        imagesPerDay: limitValue(settings.value.imagesPerDay),
+        videosPerDay: limitValue(settings.value.videosPerDay),
+      });
+      saved.value = true;
+      setTimeout(() => saved.value = false, 2000);
+    };
+
+    const changePin = async () => {
+      const next = prompt('New PIN (4 to 8 digits)') || '';
+      if (!/^\d{4,8}$/.test(next)) return alert('PIN not changed. Use 4 to 8 digits.');
+      await setPin(next);
+      alert('PIN changed.');
+    };
+
+    return { unlocked, pin, pinConfirm, pinError, hasPin, section, settings, usage, saved, unlock, toggleTool, save, changePin, PARENT_TOOLS };
+  },
+  template: `
+    <div class="fixed inset-0 z-50 bg-slate-900/30 backdrop-blur-sm flex items-center justify-center p-4" @click.self="$emit('close')">
+      <div class="glass-panel bg-white/90 rounded-2xl p-6 w-full max-w-2xl space-y-4 max-h-full overflow-y-auto">
+        <div class="flex items-center justify-between">
+          <h2 class="text-xl font-bold text-slate-700">👪 Parent Settings</h2>
+          <button @click="$emit('close')" class="text-slate-400 hover:text-slate-600">✕</button>
+        </div>
+
+        <form v-if="!unlocked" @submit.prevent="unlock" class="space-y-3 max-w-xs mx-auto text-center">
+          <p class="text-sm text-slate-600">{{ hasPin ? 'Enter your parent PIN' : 'Create a parent PIN to protect these settings' }}</p>
+          <input v-model="pin" type="password" inputmode="numeric" autocomplete="off" placeholder="PIN" class="w-full p-3 text-center text-2xl tracking-widest rounded-lg bg-white/50 border border-slate-200" />
+          <input v-if="!hasPin" v-model="pinConfirm" type="password" inputmode="numeric" autocomplete="off" placeholder="Repeat PIN" class="w-full p-3 text-center text-2xl tracking-widest rounded-lg bg-white/50 border border-slate-200" />
+          <p v-if="pinError" class="text-sm text-red-500">{{ pinError }}</p>
+          <button class="w-full py-2 bg-purple text-white rounded-lg font-bold">{{ hasPin ? 'Unlock' : 'Set PIN' }}</button>
+        </form>
+
+        <template v-else>
+          <div class="flex gap-2 text-sm">
+            <button v-for="s in ['tools', 'usage', 'safety']" :key="s" @click="section = s"
+              class="px-3 py-1 rounded-full capitalize" :class="section === s ? 'bg-purple text-white' : 'bg-white/60 text-slate-600'">{{ s }}</button>
+            <button @click="changePin" class="ml-auto px-3 py-1 rounded-full bg-white/60 text-slate-600">Change PIN</button>
+          </div>
+
+          <div v-if="section === 'tools'" class="space-y-4">
+            <div class="space-y-2">
+              <h3 class="text-sm font-bold text-slate-600 uppercase tracking-wider">Tools</h3>
+              <label v-for="tool in PARENT_TOOLS" :key="tool.id" class="flex items-center gap-3 p-2 rounded-lg bg-white/60">
+                <input type="checkbox" :checked="!settings.disabledTools.includes(tool.id)" @change="toggleTool(tool.id)" class="w-5 h-5 accent-purple" />
+                <span>{{ tool.label }}</span>
+              </label>
+            </div>
+            <div class="space-y-2">
+              <h3 class="text-sm font-bold text-slate-600 uppercase tracking-wider">Daily limits <span class="normal-case font-normal">(leave empty for no limit)</span></h3>
+              <label class="flex items-center justify-between gap-3 p-2 rounded-lg bg-white/60">
+                <span>Voice chat minutes</span>
+                <input v-model="settings.liveMinutesPerDay" type="number" min="0" class="w-24 p-1 rounded border border-slate-200 text-right" />
+              </label>
+              <label class="flex items-center justify-between gap-3 p-2 rounded-lg bg-white/60">
+                <span>Pictures (Studio, Editor, Sadie drawings)</span>
+                <input v-model="settings.imagesPerDay" type="number" min="0" class="w-24 p-1 rounded border border-slate-200 text-right" />
+              </label>
+              <label class="flex items-center justify-between gap-3 p-2 rounded-lg bg-white/60">
+                <span>Videos</span>
+                <input v-model="settings.videosPerDay" type="number" min="0" class="w-24 p-1 rounded border border-slate-200 text-right" />
+              </label>
+            </div>
+            <div class="flex justify-end gap-2 items-center">
+              <span v-if="saved" class="text-sm text-green">Saved</span>
+              <button @click="save" class="px-4 py-2 bg-purple text-white rounded-lg font-bold">Save</button>
+            </div>
+          </div>
+
+          <div v-else-if="section === 'usage'" class="overflow-x-auto">
+            <div v-if="!usage.length" class="text-sm text-slate-400">No usage yet.</div>
+            <table v-else class="w-full text-sm">
+              <thead class="text-xs text-slate-500 uppercase text-left">
+                <tr><th class="p-2">Day</th><th class="p-2">Voice min</th><th class="p-2">Pictures</th><th class="p-2">Videos</th><th class="p-2">Lens</th><th class="p-2">Searches</th></tr>
+              </thead>
+              <tbody>
+                <tr v-for="day in usage" :key="day.date" class="border-t border-slate-200/60">
+                  <td class="p-2 font-mono">{{ day.date }}</td>
+                  <td class="p-2">{{ (day.liveSeconds / 60).toFixed(1) }}</td>
+                  <td class="p-2">{{ day.images }}</td>
+                  <td class="p-2">{{ day.videos }}</td>
+                  <td class="p-2">{{ day.analyses }}</td>
+                  <td class="p-2">{{ day.searches }}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          <SafetyPanel v-else />
+        </template>
       </div>
     </div>
   `
@@ -709,21 +3061,128 @@ const ScoutTool = defineComponent({
 // --- Main App ---
 
 const App = defineComponent({
+  components: { LiveAudioComponent, CharacterImage, VoicePicker, TranscriptPanel, CharacterBuilder, AgentShare, StudioTool, EditorTool, CinemaTool, LensTool, ScoutTool, GalleryTool, ParentPanel },
   setup() {
     const activeTab = ref('sadie');
     const sadieChar = ref('dog'); // Default avatar
     const sadieMood = ref('Happy');
+    const parentOpen = ref(false);
+    const providerName = getProvider().name;
+    const transcript = ref<TranscriptTurn[]>([]);
+    const sadieSpeaking = ref(false);
+    const sadiePicture = ref('');
+    const builderOpen = ref(false);
+    const builderCharacterId = ref('');
+    const shareOpen = ref(false);
+    const currentCharacter = computed(() => allCharacters.value[sadieChar.value] || CHARACTER_ATTRIBUTES['dog']);
+    const tools = computed(() => sadieTools(allCharacters.value, currentCharacter.value));
+    const currentVoice = computed(() => characterVoice(sadieChar.value, currentCharacter.value));
+    const currentMoods = computed(() => characterMoods(currentCharacter.value));
+    const currentMood = computed(() => currentMoods.value[sadieMood.value] || Object.values(currentMoods.value)[0]);
+    // The live session is configured from the current character's agent definition
+    const sadieInstruction = computed(() =>
+      agentInstruction(currentCharacter.value.trait, currentMood.value, currentCharacter.value.guardrails));
+
+    // Agents with their own moods start in their default one
+    watch(currentMoods, (moods) => {
+      if (!moods[sadieMood.value]) sadieMood.value = currentCharacter.value.defaultMood || Object.keys(moods)[0];
+    });
+
+    const openBuilder = (id = '') => {
+      builderCharacterId.value = id;
+      builderOpen.value = true;
+    };
+    // The builder's voice choice replaces any earlier pick for that character
+    const onCharacterSaved = (id: string) => {
+      setVoiceOverride(id, null);
+      sadieChar.value = id;
+      builderOpen.value = false;
+    };
+    const onCharacterDeleted = (id: string) => {
+      setVoiceOverride(id, null);
+      if (sadieChar.value === id) sadieChar.value = 'dog';
+      builderOpen.value = false;
+    };
+    const onAgentImported = (id: string, mood: string) => {
+      sadieChar.value = id;
+      sadieMood.value = mood;
+    };
+
+    onMounted(loadCustomCharacters);
+    const sadiePictureLoading = ref(false);
+
+    const handleSadieTool: ToolHandler = async (name, args) => {
+      // The session may still have the previous character's tools for a moment
+      const allowed = currentCharacter.value.tools;
+      if (allowed && !allowed.includes(name as AgentTool)) return { error: `${currentCharacter.value.name} can't use "${name}"` };
+      switch (name) {
+        case 'setMood': {
+          const mood = currentMoods.value[args.mood];
+          if (!mood) return { error: `Unknown mood "${args.mood}"` };
+          sadieMood.value = args.mood;
+          return { output: `Your mood is now ${args.mood}. ${mood.voiceInstruction}` };
+        }
+        case 'setCharacter': {
+          const char = allCharacters.value[args.character];
+          if (!char) return { error: `Unknown character "${args.character}"` };
+          sadieChar.value = args.character;
+          return { output: `You are now ${char.name}. ${char.trait}` };
+        }
+        case 'generatePicture':
+          sadiePictureLoading.value = true;
+          try {
+            await checkAllowance('sadie', 'images');
+            await guardPrompt('sadie', args.prompt, agentSafetyConfig(getSafetyConfig(), currentCharacter.value.guardrails));
+            [sadiePicture.value] = await generateImages({ prompt: args.prompt }, { tool: 'sadie' });
+            recordUsage('images');
+            return { output: 'The picture is now on the screen.' };
+          } catch (e) {
+            return { error: `The picture could not be made. Explain kindly to the child: ${errorNotice(e)}` };
+          } finally {
+            sadiePictureLoading.value = false;
+          }
+        default:
+          return { error: `Unknown tool "${name}"` };
+      }
+    };
+
+    const onTranscript = (role: TranscriptRole, text: string) => {
+      transcript.value = appendTranscript(transcript.value, role, text);
+    };
+    const onTurnComplete = () => {
+      transcript.value = completeTranscript(transcript.value);
+    };
 
-    const tabs = [
+    const allTabs = [
       { id: 'sadie', icon: '✨', label: 'Sadie' },
       { id: 'studio', icon: '🎨', label: 'Studio' },
       { id: 'editor', icon: '🍌', label: 'Editor' },
       { id: 'cinema', icon: '🎬', label: 'Cinema' },
       { id: 'lens', icon: '👁️', label: 'Lens' },
-      { id: 'scout', icon: '🧭', label: 'Scout' }
+      { id: 'scout', icon: '🧭', label: 'Scout' },
+      { id: 'gallery', icon: '🖼️', label: 'Gallery' }
     ];
+    // The gallery makes no model calls, so parents can't turn it off
+    const tabs = computed(() => allTabs.filter(t => t.id === 'gallery' || isToolEnabled(t.id as ParentTool)));
 
-    return { activeTab, tabs, sadieChar, sadieMood, CHARACTER_ATTRIBUTES, MOOD_ATTRIBUTES };
+    watch(tabs, (visible) => {
+      if (!visible.some(t => t.id === activeTab.value)) activeTab.value = visible[0].id;
+    }, { immediate: true });
+
+    // Asset handed from the gallery to Editor or Cinema; cleared once taken so
+    // a later visit to the tab doesn't load it again
+    const sentAsset = ref<GalleryAsset | null>(null);
+    const sendAsset = (asset: GalleryAsset, target: string) => {
+      if (!tabs.value.some(t => t.id === target)) return alert('A grown-up has turned that tool off for now.');
+      sentAsset.value = asset;
+      activeTab.value = target;
+    };
+
+    const downloadFixtures = async () => downloadBlob(await exportFixtures(), 'fixtures.json');
+
+    return { activeTab, tabs, sadieChar, sadieMood, sadieSpeaking, sadiePicture, sadiePictureLoading, handleSadieTool, tools, transcript, onTranscript, onTurnComplete,
+      sentAsset, sendAsset, parentOpen, providerName, downloadFixtures, builderOpen, builderCharacterId, openBuilder, onCharacterSaved, onCharacterDeleted, currentCharacter, currentVoice,
+      currentMoods, currentMood, sadieInstruction, shareOpen, onAgentImported, CHARACTER_ATTRIBUTES, customCharacters };
   },
   template: `
     <div class="fixed inset-0 flex flex-col md:flex-row p-4 gap-4 text-slate-800 font-sans">
@@ -751,7 +3210,12 @@ const App = defineComponent({
            <h1 class="text-2xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-purple to-blue-500">
              {{ tabs.find(t => t.id === activeTab)?.label }}
            </h1>
-           <div class="text-xs font-mono text-slate-400">Sadiestar AI v2.5</div>
+           <div class="flex items-center gap-3">
+             <span v-if="providerName === 'mock'" title="Offline mock: answers come from fixtures" class="text-xs font-bold px-2 py-1 rounded-full bg-amber-100 text-amber-700">OFFLINE MOCK</span>
+             <button v-if="providerName === 'record'" @click="downloadFixtures" title="Download recorded fixtures" class="text-xs font-bold px-2 py-1 rounded-full bg-red-100 text-red-700">● REC · Export</button>
+             <button @click="parentOpen = true" title="Parent settings" class="text-lg opacity-60 hover:opacity-100">👪</button>
+             <div class="text-xs font-mono text-slate-400">Sadiestar AI v2.5</div>
+           </div>
         </header>
 
         <!-- Content Area -->
@@ -759,7 +3223,7 @@ const App = defineComponent({
           
           <!-- SADIE TAB -->
           <div v-if="activeTab === 'sadie'" class="h-full flex flex-col md:flex-row gap-8 items-center justify-center">
-             <div class="w-full md:w-1/2 max-w-md aspect-square">
+             <div class="w-full md:w-1/2 max-w-md aspect-square rounded-2xl transition-all duration-300" :class="sadieSpeaking ? 'ring-4 ring-purple/40 scale-[1.02]' : ''">
                 <CharacterImage :character="sadieChar" :mood="sadieMood" />
              </div>
              <div class="w-full md:w-1/2 max-w-md space-y-6">
@@ -767,27 +3231,57 @@ const App = defineComponent({
                    <h2 class="text-xl font-bold text-slate-700">Chat with Sadie</h2>
                    <div class="flex gap-2 flex-wrap">
                       <select v-model="sadieChar" class="p-2 rounded-lg bg-white/50 border border-slate-200 text-sm">
-                        <option v-for="(v, k) in CHARACTER_ATTRIBUTES" :key="k" :value="k">{{ v.name }}</option>
+                        <optgroup label="Characters">
+                          <option v-for="(v, k) in CHARACTER_ATTRIBUTES" :key="k" :value="k">{{ v.emoji }} {{ v.name }}</option>
+                        </optgroup>
+                        <optgroup v-if="Object.keys(customCharacters).length" label="My Characters">
+                          <option v-for="(v, k) in customCharacters" :key="k" :value="k">{{ v.emoji }} {{ v.name }}</option>
+                        </optgroup>
                       </select>
                       <select v-model="sadieMood" class="p-2 rounded-lg bg-white/50 border border-slate-200 text-sm">
-                        <option v-for="(v, k) in MOOD_ATTRIBUTES" :key="k" :value="k">{{ k }}</option>
+                        <option v-for="(v, k) in currentMoods" :key="k" :value="k">{{ v.emoji }} {{ k }}</option>
                       </select>
+                      <button v-if="currentCharacter.custom" @click="openBuilder(sadieChar)" class="px-3 py-2 rounded-lg bg-white/50 border border-slate-200 text-sm">✏️ Edit</button>
+                      <button @click="openBuilder()" class="px-3 py-2 rounded-lg bg-white/50 border border-slate-200 text-sm">➕ Create Character</button>
+                      <button @click="shareOpen = !shareOpen" class="px-3 py-2 rounded-lg border border-slate-200 text-sm" :class="shareOpen ? 'bg-white' : 'bg-white/50'">📦 Share</button>
                    </div>
+                   <AgentShare v-if="shareOpen" :characterId="sadieChar" :character="currentCharacter" @imported="onAgentImported" />
+                   <VoicePicker :characterId="sadieChar" :character="currentCharacter" :styleInstruction="currentMood.voiceInstruction" />
                    <LiveAudioComponent 
                       initialMessage="Hi! I'm Sadie. Let's create something amazing!" 
-                      :voiceName="'Kore'"
-                      :systemInstruction="CHARACTER_ATTRIBUTES[sadieChar].trait + ' ' + MOOD_ATTRIBUTES[sadieMood].voiceInstruction"
+                      :voiceName="currentVoice"
+                      :systemInstruction="sadieInstruction"
+                      @transcript="onTranscript"
+                      @turn-complete="onTurnComplete"
+                      @speaking-start="sadieSpeaking = true"
+                      @speaking-end="sadieSpeaking = false"
+                      @interrupted="onTurnComplete"
+                      :tools="tools"
+                      :toolHandler="handleSadieTool"
                    />
                 </div>
+                <div v-if="sadiePicture || sadiePictureLoading" class="glass p-4 rounded-2xl space-y-2">
+                   <div class="flex items-center justify-between">
+                      <h3 class="text-sm font-bold text-slate-600 uppercase tracking-wider">Sadie's Drawing</h3>
+                      <button v-if="sadiePicture" @click="sadiePicture = ''" class="text-xs text-slate-400 hover:text-slate-600">✕</button>
+                   </div>
+                   <img v-if="sadiePicture" :src="sadiePicture" class="w-full rounded-xl shadow" />
+                   <div v-else class="aspect-square rounded-xl bg-white/50 flex items-center justify-center animate-pulse text-purple font-bold">Drawing...</div>
+                </div>
+                <TranscriptPanel :turns="transcript" :characterName="currentCharacter.name" @clear="transcript = []" />
              </div>
           </div>
 
           <!-- OTHER TOOLS -->
           <StudioTool v-if="activeTab === 'studio'" />
-          <EditorTool v-if="activeTab === 'editor'" />
-          <CinemaTool v-if="activeTab === 'cinema'" />
+          <EditorTool v-if="activeTab === 'editor'" :asset="sentAsset" @consumed="sentAsset = null" />
+          <CinemaTool v-if="activeTab === 'cinema'" :asset="sentAsset" @consumed="sentAsset = null" />
           <LensTool v-if="activeTab === 'lens'" />
           <ScoutTool v-if="activeTab === 'scout'" />
+          <GalleryTool v-if="activeTab === 'gallery'" @send="sendAsset" />
+
+          <ParentPanel v-if="parentOpen" @close="parentOpen = false" />
+          <CharacterBuilder v-if="builderOpen" :characterId="builderCharacterId" @saved="onCharacterSaved" @deleted="onCharacterDeleted" @close="builderOpen = false" />
 
         </div>
       </main>
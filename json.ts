@@ -0,0 +1,14 @@
+/** * @license * SPDX-License-Identifier: Apache-2.0 */
+
+// Narrowing for JSON that can't be trusted: model replies, imported files,
+// grounding metadata. A missing or wrongly typed value comes back empty, so
+// the normalizers built on these never throw on a bad shape.
+
+export const asObject = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+export const asArray = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+// Strings are trimmed; numbers are accepted as text, anything else is empty
+export const asString = (value: unknown): string =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
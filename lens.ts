@@ -0,0 +1,70 @@
+/** * @license * SPDX-License-Identifier: Apache-2.0 */
+import { Schema, Type } from '@google/genai';
+import { asArray, asObject, asString } from './json';
+
+// Structured Lens answers: a short reply plus the objects the model found,
+// with boxes as fractions of the image so they can be drawn at any size.
+
+export interface DetectedObject {
+  label: string;
+  // 0..1 from the top-left corner
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LensAnalysis {
+  answer: string;
+  objects: DetectedObject[];
+}
+
+// Gemini is trained on [ymin, xmin, ymax, xmax] boxes scaled to 0-1000
+const BOX_SCALE = 1000;
+
+export const LENS_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    answer: { type: Type.STRING, description: 'answer to the question about the picture' },
+    objects: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          label: { type: Type.STRING, description: 'short object name' },
+          box_2d: {
+            type: Type.ARRAY,
+            description: '[ymin, xmin, ymax, xmax] scaled to 0-1000',
+            items: { type: Type.INTEGER, minimum: 0, maximum: BOX_SCALE },
+          },
+        },
+        required: ['label', 'box_2d'],
+      },
+    },
+  },
+  required: ['answer', 'objects'],
+};
+
+export const DEFAULT_LENS_QUESTION = 'What is in this picture? Describe what you see and the context.';
+
+export function lensPrompt(question: string) {
+  return `${question.trim() || DEFAULT_LENS_QUESTION}\n\nAlso list the main objects you can see, each with a bounding box.`;
+}
+
+const clamp = (n: number) => Math.max(0, Math.min(1, n));
+
+// Boxes the model gets wrong (missing, swapped or empty) are fixed or dropped
+export function normalizeLensAnalysis(raw: unknown): LensAnalysis {
+  const analysis = asObject(raw);
+  const objects = asArray(analysis.objects).flatMap((value): DetectedObject[] => {
+    const o = asObject(value);
+    const box = asArray(o.box_2d).map(Number);
+    if (box.length !== 4 || box.some(n => !Number.isFinite(n))) return [];
+    const [y0, x0, y1, x1] = box.map(n => clamp(n / BOX_SCALE));
+    const x = Math.min(x0, x1), y = Math.min(y0, y1);
+    const width = Math.abs(x1 - x0), height = Math.abs(y1 - y0);
+    if (!width || !height) return [];
+    return [{ label: asString(o.label) || 'Object', x, y, width, height }];
+  });
+  return { answer: asString(analysis.answer), objects };
+}
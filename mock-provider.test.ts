@@ -0,0 +1,61 @@
+/** * @license * SPDX-License-Identifier: Apache-2.0 */
+import { readFile } from 'node:fs/promises';
+import { Schema, Type } from '@google/genai';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { editImage, finishVideo, generateJson, getProvider, groundedSearch, startVideo } from './genai';
+
+// A smoke test of the offline path: no key, no network and no IndexedDB, just
+// the files in public/. Recorded fixtures are skipped when IndexedDB is missing.
+beforeAll(() => {
+  const storage = new Map<string, string>();
+  vi.stubGlobal('location', { search: '?provider=mock', protocol: 'http:', host: 'localhost' });
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  });
+  vi.stubGlobal('fetch', async (path: string) => {
+    try {
+      return new Response(await readFile(new URL(`./public/${path}`, import.meta.url)));
+    } catch {
+      return new Response(null, { status: 404 });
+    }
+  });
+});
+
+const PIXEL = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+describe('mock provider', () => {
+  it('is picked by ?provider=mock and remembered', () => {
+    expect(getProvider().name).toBe('mock');
+    expect(localStorage.getItem('sadie-provider')).toBe('mock');
+  });
+
+  it('answers structured requests in the shape of the schema', async () => {
+    const schema: Schema = {
+      type: Type.OBJECT,
+      properties: { title: { type: Type.STRING }, count: { type: Type.INTEGER, minimum: 3 } },
+    };
+    const reply = await generateJson<{ title: string; count: number }>({ prompt: 'Name a story', schema }, { tool: 'studio' });
+    expect(typeof reply.title).toBe('string');
+    expect(reply.count).toBe(3);
+  });
+
+  it('returns grounded answers with a cited source', async () => {
+    const { text, chunks, supports } = await groundedSearch({ query: 'Why are rainbows curved?' }, { tool: 'scout' });
+    expect(text).toContain('Rainbows');
+    expect(chunks[0].web.uri).toMatch(/^https:/);
+    expect(supports[0].groundingChunkIndices).toEqual([0]);
+  });
+
+  it('echoes the picture back for edits', async () => {
+    expect(await editImage({ image: PIXEL, instruction: 'Add a hat' }, { tool: 'editor' })).toBe(PIXEL);
+  });
+
+  it('plays the sample video from public/', async () => {
+    const operation = await startVideo({ prompt: 'A dancing cat' }, { tool: 'cinema' });
+    const video = await finishVideo(operation, 'A dancing cat', { tool: 'cinema' });
+    const sample = await readFile(new URL('./public/generating.mp4', import.meta.url));
+    expect(video.size).toBe(sample.length);
+  });
+});
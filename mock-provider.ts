@@ -0,0 +1,200 @@
+/** * @license * SPDX-License-Identifier: Apache-2.0 */
+import {
+  GenerateContentParameters, GenerateContentResponse, GenerateImagesResponse, GenerateVideosOperation,
+  LiveServerMessage, Modality, Schema, Type
+} from '@google/genai';
+import { MODEL_SAMPLE_RATE, createBlob } from './audio';
+import { blobToDataUrl, dataUrlToBlob } from './gallery';
+import { Fixture, FixtureKind, GenAIProvider, LiveSession, contentEndpoint, fixtureKey, getRecordedFixture } from './provider';
+
+// Offline stand-in for Gemini. Each request is answered from, in order: a
+// fixture recorded in this browser, a fixture in public/fixtures.json, or a
+// canned answer built from the images and sounds in public/.
+
+const MOCK_LATENCY = 400;
+const LIVE_CHUNK_SECONDS = 0.25;
+
+const CANNED_IMAGES = ['claymojis.png', 'preload.png', 'logo.png'];
+const CANNED_VIDEO = 'generating.mp4';
+const CANNED_VOICE = 'hi.wav';
+
+const CANNED_ANALYSIS = 'This is a pretend answer from the offline mock. I can see a colourful picture with lots of fun shapes!';
+const CANNED_SEARCH = 'This is a pretend search answer from the offline mock. Rainbows happen when sunlight shines through raindrops.';
+const CANNED_LINES = [
+  "Hi! I'm running in offline mode, so I can only say a few things.",
+  "That sounds fun! Tell me more.",
+  "Wow, great idea!",
+];
+
+const delay = (ms: number) => new Promise<void>(r => setTimeout(r, ms));
+
+let sharedFixtures: Promise<Fixture[]> | null = null;
+
+function loadSharedFixtures() {
+  if (!sharedFixtures) {
+    sharedFixtures = fetch('fixtures.json')
+      .then(res => res.ok ? res.json() : [])
+      .catch(() => []);
+  }
+  return sharedFixtures;
+}
+
+async function findFixture(kind: FixtureKind, params: { model: string; prompt?: string; contents?: unknown }) {
+  const key = fixtureKey(kind, params);
+  const recorded = await getRecordedFixture(key).catch(() => undefined);
+  if (recorded) return recorded;
+  return (await loadSharedFixtures()).find(f => f.key === key);
+}
+
+let cannedVoice: Promise<Float32Array> | null = null;
+
+// hi.wav decoded and resampled to the 24 kHz the Live and TTS models speak at
+function loadCannedVoice() {
+  if (!cannedVoice) {
+    cannedVoice = fetch(CANNED_VOICE)
+      .then(res => res.arrayBuffer())
+      .then(data => new OfflineAudioContext(1, 1, MODEL_SAMPLE_RATE).decodeAudioData(data))
+      .then(buffer => buffer.getChannelData(0));
+    cannedVoice.catch(() => cannedVoice = null);
+  }
+  return cannedVoice;
+}
+
+async function publicFileBase64(name: string) {
+  const blob = await (await fetch(name)).blob();
+  return (await blobToDataUrl(blob)).split(',')[1];
+}
+
+// Placeholder data in the shape of a response schema: first enum value, the
+// minimum for numbers, and two items for arrays
+function sampleFromSchema(schema: Schema): unknown {
+  switch (schema.type) {
+    case Type.OBJECT:
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([k, v]) => [k, sampleFromSchema(v)]));
+    case Type.ARRAY:
+      return [0, 1].map(() => sampleFromSchema(schema.items || { type: Type.STRING }));
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return schema.minimum ?? 1;
+    case Type.BOOLEAN:
+      return true;
+    default:
+      return schema.enum?.[0] ?? `Sample ${schema.description || 'text'} from the offline mock`;
+  }
+}
+
+function cannedContent(params: GenerateContentParameters): Promise<object> | object {
+  const parts = (params.contents as { parts?: any[] })?.parts || [];
+  const image = parts.find(p => p.inlineData)?.inlineData;
+  const endpoint = contentEndpoint(params);
+
+  // Text-to-speech always says hi.wav
+  if (params.config?.responseModalities?.includes(Modality.AUDIO)) {
+    return loadCannedVoice().then(samples => {
+      const { data, mimeType } = createBlob(samples, MODEL_SAMPLE_RATE);
+      return { candidates: [{ content: { role: 'model', parts: [{ inlineData: { data, mimeType } }] } }] };
+    });
+  }
+
+  // Image edits echo the picture back unchanged
+  if (image && endpoint === 'edit') {
+    return { candidates: [{ content: { role: 'model', parts: [{ inlineData: image }] } }] };
+  }
+
+  if (endpoint === 'search') {
+    const useMaps = params.config!.tools!.some(t => 'googleMaps' in t);
+    const groundingChunks = useMaps
+      ? [{
+          maps: {
+            title: 'Sunny Park Playground', uri: 'https://maps.google.com/?q=playground', placeId: 'mock-playground',
+            text: 'A shady playground with swings and a splash pad.',
+            placeAnswerSources: { reviewSnippets: [{ review: 'My kids love the big slide!' }] },
+          }
+        }]
+      : [{ web: { title: 'Example Science for Kids', uri: 'https://example.com/rainbows' } }];
+    // Cite the last sentence, like real grounded answers do
+    const groundingSupports = [{ segment: { startIndex: CANNED_SEARCH.indexOf('Rainbows'), endIndex: CANNED_SEARCH.length }, groundingChunkIndices: [0] }];
+    return { candidates: [{ content: { role: 'model', parts: [{ text: CANNED_SEARCH }] }, groundingMetadata: { groundingChunks, groundingSupports } }] };
+  }
+
+  const schema = params.config?.responseSchema as Schema | undefined;
+  const text = schema ? JSON.stringify(sampleFromSchema(schema)) : CANNED_ANALYSIS;
+  return { candidates: [{ content: { role: 'model', parts: [{ text }] } }] };
+}
+
+// Speaks hi.wav back as 24 kHz PCM in small chunks, with a caption, whenever
+// the app sends a complete turn. Mic audio is accepted and ignored.
+async function connectMockLive(callbacks: { onopen?: (() => void) | null; onmessage: (e: LiveServerMessage) => void; onclose?: ((e: CloseEvent) => void) | null }): Promise<LiveSession> {
+  const samples = await loadCannedVoice();
+  const chunkSize = Math.round(LIVE_CHUNK_SECONDS * MODEL_SAMPLE_RATE);
+
+  let open = true;
+  let line = 0;
+
+  const reply = async () => {
+    const text = CANNED_LINES[line++ % CANNED_LINES.length];
+    callbacks.onmessage({ serverContent: { outputTranscription: { text } } });
+    for (let i = 0; i < samples.length && open; i += chunkSize) {
+      const { data, mimeType } = createBlob(samples.subarray(i, i + chunkSize), MODEL_SAMPLE_RATE);
+      callbacks.onmessage({ serverContent: { modelTurn: { parts: [{ inlineData: { data, mimeType } }] } } });
+      await delay(LIVE_CHUNK_SECONDS * 500);
+    }
+    if (open) callbacks.onmessage({ serverContent: { turnComplete: true } });
+  };
+
+  // The app waits for the session promise inside onopen, so open on the next tick
+  setTimeout(() => callbacks.onopen?.(), 0);
+
+  return {
+    sendClientContent: ({ turnComplete }) => {
+      if (open && turnComplete !== false) reply();
+    },
+    sendRealtimeInput: () => {},
+    sendToolResponse: () => {},
+    close: () => {
+      if (!open) return;
+      open = false;
+      callbacks.onclose?.(new CloseEvent('close'));
+    },
+  };
+}
+
+export function createMockProvider(): GenAIProvider {
+  return {
+    name: 'mock',
+    async generateImages(params) {
+      await delay(MOCK_LATENCY);
+      const fixture = await findFixture('images', params);
+      if (fixture) return Object.assign(new GenerateImagesResponse(), fixture.response);
+      const count = params.config?.numberOfImages || 1;
+      const generatedImages = await Promise.all(Array.from({ length: count }, async (_, i) => ({
+        image: { imageBytes: await publicFileBase64(CANNED_IMAGES[i % CANNED_IMAGES.length]), mimeType: 'image/png' }
+      })));
+      return Object.assign(new GenerateImagesResponse(), { generatedImages });
+    },
+    async generateContent(params) {
+      await delay(MOCK_LATENCY);
+      const fixture = await findFixture('content', params);
+      return Object.assign(new GenerateContentResponse(), fixture ? fixture.response : await cannedContent(params));
+    },
+    async generateVideos(params) {
+      await delay(MOCK_LATENCY);
+      const fixture = await findFixture('videos', params);
+      if (!fixture) {
+        return { name: 'mock-video', done: true, response: { generatedVideos: [{ video: { uri: `fixture://${CANNED_VIDEO}` } }] } };
+      }
+      const op = fixture.response as GenerateVideosOperation;
+      // Point the recorded video at its saved copy instead of the expired download link
+      const video = op.response?.generatedVideos?.[0]?.video;
+      if (video && fixture.video) video.uri = fixture.video;
+      return op;
+    },
+    // Mock operations are always finished
+    getVideosOperation: async (operation) => ({ ...operation, done: true }),
+    async downloadVideo(uri) {
+      if (uri.startsWith('data:')) return dataUrlToBlob(uri);
+      return (await fetch(uri.replace('fixture://', ''))).blob();
+    },
+    connectLive: (params) => connectMockLive(params.callbacks),
+  };
+}
@@ -0,0 +1,128 @@
+/** * @license * SPDX-License-Identifier: Apache-2.0 */
+import { ref } from 'vue';
+import { dbEntries, dbGet, dbPut } from './db';
+
+// Parent controls: which tools are on, daily limits, and the usage that
+// counts against them. Components call checkAllowance before doing anything
+// that costs quota and recordUsage after it succeeds.
+
+export type ParentTool = 'sadie' | 'studio' | 'editor' | 'cinema' | 'lens' | 'scout';
+export type UsageKind = 'liveSeconds' | 'images' | 'videos' | 'analyses' | 'searches';
+
+export interface ParentSettings {
+  pinHash: string;
+  disabledTools: ParentTool[];
+  // null means no limit
+  liveMinutesPerDay: number | null;
+  imagesPerDay: number | null;
+  videosPerDay: number | null;
+}
+
+export type DailyUsage = { date: string } & Record<UsageKind, number>;
+
+const SETTINGS_KEY = 'sadie-parent-settings';
+
+const DEFAULT_SETTINGS: ParentSettings = {
+  pinHash: '',
+  disabledTools: [],
+  liveMinutesPerDay: null,
+  imagesPerDay: null,
+  videosPerDay: null,
+};
+
+function loadSettings(): ParentSettings {
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+export const parentSettings = ref<ParentSettings>(loadSettings());
+
+export function saveParentSettings(settings: ParentSettings) {
+  parentSettings.value = { ...settings, disabledTools: [...settings.disabledTools] };
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(parentSettings.value));
+}
+
+async function hashPin(pin: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`sadiestar:${pin}`));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function setPin(pin: string) {
+  saveParentSettings({ ...parentSettings.value, pinHash: await hashPin(pin) });
+}
+
+export async function verifyPin(pin: string) {
+  return !!parentSettings.value.pinHash && parentSettings.value.pinHash === await hashPin(pin);
+}
+
+export function isToolEnabled(tool: ParentTool) {
+  return !parentSettings.value.disabledTools.includes(tool);
+}
+
+export class LimitReachedError extends Error {
+  constructor(public friendlyMessage: string) {
+    super(friendlyMessage);
+    this.name = 'LimitReachedError';
+  }
+}
+
+// Kid-facing text for a parent limit, or null when the error is something else
+export function limitMessage(e: unknown): string | null {
+  return e instanceof LimitReachedError ? e.friendlyMessage : null;
+}
+
+const todayKey = () => new Date().toLocaleDateString('en-CA');
+
+const emptyUsage = (date: string): DailyUsage => ({ date, liveSeconds: 0, images: 0, videos: 0, analyses: 0, searches: 0 });
+
+export async function getUsage(date = todayKey()): Promise<DailyUsage> {
+  return { ...emptyUsage(date), ...await dbGet<DailyUsage>('usage', date) };
+}
+
+export async function recordUsage(kind: UsageKind, amount = 1) {
+  try {
+    const usage = await getUsage();
+    usage[kind] += amount;
+    await dbPut('usage', usage.date, usage);
+  } catch (e) {
+    console.warn('Could not record usage', e);
+  }
+}
+
+// Newest first
+export async function listUsage(): Promise<DailyUsage[]> {
+  const entries = await dbEntries<DailyUsage>('usage');
+  return entries.map(([date, u]) => ({ ...emptyUsage(date), ...u })).sort((a, b) => b.date.localeCompare(a.date));
+}
+
+function dailyLimit(kind: UsageKind): number | null {
+  const s = parentSettings.value;
+  if (kind === 'liveSeconds') return s.liveMinutesPerDay === null ? null : s.liveMinutesPerDay * 60;
+  if (kind === 'images') return s.imagesPerDay;
+  if (kind === 'videos') return s.videosPerDay;
+  return null;
+}
+
+export async function remainingToday(kind: UsageKind): Promise<number> {
+  const limit = dailyLimit(kind);
+  if (limit === null) return Infinity;
+  return Math.max(0, limit - (await getUsage())[kind]);
+}
+
+const LIMIT_MESSAGES: Partial<Record<UsageKind, string>> = {
+  liveSeconds: "That's all the chatting time for today! Sadie will be ready to talk again tomorrow. 🌙",
+  images: "You've made all the pictures you can for today. Come back tomorrow for more art! 🎨",
+  videos: "You've made all the movies you can for today. Come back tomorrow for more! 🎬",
+};
+
+export async function checkAllowance(tool: ParentTool, kind?: UsageKind, amount = 1) {
+  if (!isToolEnabled(tool)) {
+    throw new LimitReachedError('A grown-up has turned this tool off for now.');
+  }
+  if (kind && await remainingToday(kind) < amount) {
+    throw new LimitReachedError(LIMIT_MESSAGES[kind] || 'You have reached the limit for today.');
+  }
+}
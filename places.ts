@@ -0,0 +1,135 @@
+/** * @license * SPDX-License-Identifier: Apache-2.0 */
+import { Schema, Type } from '@google/genai';
+import { asArray, asObject, asString } from './json';
+
+// Place cards for Scout's Maps mode. Maps grounding gives names, links and
+// review snippets but no coordinates, so distances come from asking the text
+// model to geocode the names; they are estimates, and shown as such.
+
+export interface LatLng {
+  latitude: number;
+  longitude: number;
+}
+
+export interface Place {
+  id: string;
+  name: string;
+  uri: string;
+  // Short description from the grounding chunk, when there is one
+  text: string;
+  reviews: string[];
+  location?: LatLng;
+}
+
+// Where searches are made from: the device position, or a city the user typed
+export interface SearchLocation {
+  label: string;
+  coords: LatLng;
+}
+
+export function placeFromChunk(chunk: unknown): Place | null {
+  const maps = asObject(asObject(chunk).maps);
+  const uri = asString(maps.uri);
+  if (!uri) return null;
+  const snippets = asArray(asObject(maps.placeAnswerSources).reviewSnippets).map(asObject);
+  return {
+    id: asString(maps.placeId) || uri,
+    name: asString(maps.title) || 'Location Result',
+    uri,
+    text: asString(maps.text),
+    // Older responses carry the review text, newer ones only a title
+    reviews: snippets.map(s => asString(s.review) || asString(s.title)).filter(Boolean),
+  };
+}
+
+export function distanceKm(a: LatLng, b: LatLng) {
+  const rad = (deg: number) => deg * Math.PI / 180;
+  const dLat = rad(b.latitude - a.latitude);
+  const dLng = rad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.latitude)) * Math.cos(rad(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(h));
+}
+
+const MILES_LOCALES = ['en-US', 'en-GB', 'en-LR', 'my-MM'];
+
+export function formatDistance(km: number, locale = navigator.language) {
+  const miles = MILES_LOCALES.includes(locale);
+  const value = miles ? km / 1.609344 : km;
+  return `≈ ${value < 10 ? value.toFixed(1) : Math.round(value)} ${miles ? 'mi' : 'km'}`;
+}
+
+export const GEOCODE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    places: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          index: { type: Type.INTEGER, minimum: 0, description: 'number of the place in the list' },
+          found: { type: Type.BOOLEAN, description: 'false if unsure where the place is' },
+          latitude: { type: Type.NUMBER },
+          longitude: { type: Type.NUMBER },
+        },
+        required: ['index', 'found', 'latitude', 'longitude'],
+      },
+    },
+  },
+  required: ['places'],
+};
+
+export function geocodePrompt(names: string[], near?: string) {
+  const list = names.map((name, i) => `${i}. ${name}`).join('\n');
+  return `Give the latitude and longitude of each place below${near ? `, all near ${near}` : ''}. `
+    + `Set found to false for any place you are not sure about.\n\n${list}`;
+}
+
+// One entry per name; undefined where the model wasn't sure or answered nonsense
+export function readGeocodes(raw: unknown, count: number): (LatLng | undefined)[] {
+  const out: (LatLng | undefined)[] = new Array(count).fill(undefined);
+  for (const p of asArray(asObject(raw).places).map(asObject)) {
+    const index = Number(p.index), latitude = Number(p.latitude), longitude = Number(p.longitude);
+    if (!p.found || !(index >= 0 && index < count)) continue;
+    if (!(Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180)) continue;
+    out[index] = { latitude, longitude };
+  }
+  return out;
+}
+
+const SAVED_PLACES_KEY = 'sadie-saved-places';
+const SEARCH_CITY_KEY = 'sadie-search-city';
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    return JSON.parse(localStorage.getItem(key) || 'null') ?? fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function loadSavedPlaces(): Place[] {
+  return readJson<Place[]>(SAVED_PLACES_KEY, []);
+}
+
+// Newest first
+export function savePlace(place: Place): Place[] {
+  const places = [place, ...loadSavedPlaces().filter(p => p.id !== place.id)];
+  localStorage.setItem(SAVED_PLACES_KEY, JSON.stringify(places));
+  return places;
+}
+
+export function removeSavedPlace(id: string): Place[] {
+  const places = loadSavedPlaces().filter(p => p.id !== id);
+  localStorage.setItem(SAVED_PLACES_KEY, JSON.stringify(places));
+  return places;
+}
+
+// The typed city is remembered so it's only asked for once
+export function loadSearchCity(): SearchLocation | null {
+  return readJson<SearchLocation | null>(SEARCH_CITY_KEY, null);
+}
+
+export function saveSearchCity(location: SearchLocation | null) {
+  if (location) localStorage.setItem(SEARCH_CITY_KEY, JSON.stringify(location));
+  else localStorage.removeItem(SEARCH_CITY_KEY);
+}
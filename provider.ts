@@ -0,0 +1,207 @@
+/** * @license * SPDX-License-Identifier: Apache-2.0 */
+import {
+  GenerateContentParameters, GenerateContentResponse, GenerateImagesParameters, GenerateImagesResponse,
+  GenerateVideosOperation, GenerateVideosParameters, LiveConnectParameters, LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters, LiveSendToolResponseParameters, LiveServerMessage
+} from '@google/genai';
+import { dbEntries, dbGet, dbPut } from './db';
+import { blobToDataUrl } from './gallery';
+
+// Everything genai.ts needs from a model backend. The Gemini provider is the
+// real thing, reached through the local API server (server.ts); the mock provider (mock-provider.ts) answers from fixtures so
+// the app runs with no key and no network; the recording provider wraps
+// Gemini and saves every response as a fixture the mock can replay.
+
+export interface LiveSession {
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  close(): void;
+}
+
+export interface GenAIProvider {
+  name: ProviderName;
+  generateImages(params: GenerateImagesParameters): Promise<GenerateImagesResponse>;
+  generateContent(params: GenerateContentParameters): Promise<GenerateContentResponse>;
+  generateVideos(params: GenerateVideosParameters): Promise<GenerateVideosOperation>;
+  getVideosOperation(operation: GenerateVideosOperation): Promise<GenerateVideosOperation>;
+  downloadVideo(uri: string, signal?: AbortSignal): Promise<Blob>;
+  connectLive(params: LiveConnectParameters): Promise<LiveSession>;
+}
+
+export type ProviderName = 'gemini' | 'mock' | 'record';
+
+const PROVIDER_KEY = 'sadie-provider';
+
+// ?provider=mock|record|gemini in the URL wins and is remembered; with no API
+// key configured for the server the app falls back to the mock.
+export function selectedProviderName(): ProviderName {
+  const fromUrl = new URLSearchParams(location.search).get('provider');
+  if (fromUrl === 'gemini' || fromUrl === 'mock' || fromUrl === 'record') {
+    localStorage.setItem(PROVIDER_KEY, fromUrl);
+    return fromUrl;
+  }
+  const saved = localStorage.getItem(PROVIDER_KEY);
+  if (saved === 'gemini' || saved === 'mock' || saved === 'record') return saved;
+  return process.env.HAS_API_KEY ? 'gemini' : 'mock';
+}
+
+// Which server endpoint a generateContent request belongs to; each has its own rate limit
+export function contentEndpoint(params: GenerateContentParameters): 'edit' | 'search' | 'text' {
+  if (params.config?.tools?.length) return 'search';
+  return params.model.includes('image') ? 'edit' : 'text';
+}
+
+async function postJson<T>(path: string, body: unknown): Promise<T> {
+  const res = await fetch(`/api/${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) {
+    const { error } = await res.json().catch(() => ({ error: '' }));
+    // Same shape as SDK errors so toGenAIError can read the status
+    throw new Error(`got status: ${res.status} ${error || res.statusText}`);
+  }
+  return res.json();
+}
+
+function liveSocketUrl() {
+  return `${location.protocol === 'https:' ? 'wss' : 'ws'}://${location.host}/api/live`;
+}
+
+// Opens the server's live relay. Resolves once Gemini has accepted the session;
+// close codes 4000 + HTTP status carry the server's error.
+function connectLiveRelay(params: LiveConnectParameters): Promise<LiveSession> {
+  const { callbacks, ...setup } = params;
+  const socket = new WebSocket(liveSocketUrl());
+  const send = (msg: object) => {
+    if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(msg));
+  };
+  const session: LiveSession = {
+    sendClientContent: (p) => send({ clientContent: p }),
+    sendRealtimeInput: (p) => send({ realtimeInput: p }),
+    sendToolResponse: (p) => send({ toolResponse: p }),
+    close: () => socket.close(),
+  };
+
+  return new Promise((resolve, reject) => {
+    let open = false;
+    socket.onopen = () => send({ setup });
+    socket.onmessage = (e) => {
+      const msg = JSON.parse(e.data);
+      if (msg.open) {
+        open = true;
+        resolve(session);
+        callbacks.onopen?.();
+        return;
+      }
+      callbacks.onmessage(msg as LiveServerMessage);
+    };
+    socket.onclose = (e) => {
+      const failed = e.code >= 4000;
+      const message = `got status: ${failed ? e.code - 4000 : 503} ${e.reason || 'Live connection closed'}`;
+      if (!open) return reject(new Error(message));
+      if (failed) callbacks.onerror?.(new ErrorEvent('error', { message }));
+      callbacks.onclose?.(e);
+    };
+  });
+}
+
+export function createGeminiProvider(): GenAIProvider {
+  return {
+    name: 'gemini',
+    generateImages: async (params) => Object.assign(new GenerateImagesResponse(), await postJson('images', params)),
+    generateContent: async (params) => Object.assign(new GenerateContentResponse(), await postJson(contentEndpoint(params), params)),
+    generateVideos: (params) => postJson('videos', params),
+    getVideosOperation: (operation) => postJson('videos/operation', { operation }),
+    downloadVideo: async (uri, signal) => {
+      const res = await fetch(`/api/videos/download?uri=${encodeURIComponent(uri)}`, { signal });
+      if (!res.ok) throw new Error(`got status: ${res.status} ${res.statusText}.`);
+      return res.blob();
+    },
+    connectLive: connectLiveRelay,
+  };
+}
+
+// --- Fixtures ---
+
+export type FixtureKind = 'images' | 'content' | 'videos';
+
+export interface Fixture {
+  kind: FixtureKind;
+  key: string;
+  response: unknown;
+  // Downloaded video, as a data URL so fixtures export as plain JSON
+  video?: string;
+  recordedAt: number;
+}
+
+// Requests match a fixture on model and text only; inline images are
+// identified by type and size so a replay doesn't need the exact bytes.
+export function fixtureKey(kind: FixtureKind, params: { model: string; prompt?: string; contents?: unknown }) {
+  const describe = (value: unknown): unknown => {
+    if (typeof value === 'string' || value === null || typeof value !== 'object') return value;
+    if (Array.isArray(value)) return value.map(describe);
+    const obj = value as Record<string, unknown>;
+    if (obj.inlineData && typeof obj.inlineData === 'object') {
+      const data = obj.inlineData as { mimeType?: string; data?: string };
+      return { inlineData: `${data.mimeType}:${data.data?.length || 0}` };
+    }
+    return Object.fromEntries(Object.keys(obj).sort().map(k => [k, describe(obj[k])]));
+  };
+  return `${kind}|${params.model}|${JSON.stringify(describe(params.prompt ?? params.contents))}`;
+}
+
+export function getRecordedFixture(key: string) {
+  return dbGet<Fixture>('fixtures', key);
+}
+
+function saveFixture(fixture: Fixture) {
+  return dbPut('fixtures', fixture.key, fixture).catch(e => console.warn('Could not save fixture', e));
+}
+
+// Downloads every recorded fixture as fixtures.json; drop it into public/ to
+// share it with other machines
+export async function exportFixtures(): Promise<Blob> {
+  const fixtures = (await dbEntries<Fixture>('fixtures')).map(([, f]) => f);
+  return new Blob([JSON.stringify(fixtures, null, 2)], { type: 'application/json' });
+}
+
+const plain = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export function createRecordingProvider(inner: GenAIProvider): GenAIProvider {
+  // Video operations are recorded once they finish, under the key of the request that started them
+  const pendingVideos = new Map<string, string>();
+
+  return {
+    ...inner,
+    name: 'record',
+    async generateImages(params) {
+      const resp = await inner.generateImages(params);
+      saveFixture({ kind: 'images', key: fixtureKey('images', params), response: plain(resp), recordedAt: Date.now() });
+      return resp;
+    },
+    async generateContent(params) {
+      const resp = await inner.generateContent(params);
+      saveFixture({ kind: 'content', key: fixtureKey('content', params), response: plain(resp), recordedAt: Date.now() });
+      return resp;
+    },
+    async generateVideos(params) {
+      const op = await inner.generateVideos(params);
+      if (op.name) pendingVideos.set(op.name, fixtureKey('videos', params));
+      return op;
+    },
+    async getVideosOperation(operation) {
+      const op = await inner.getVideosOperation(operation);
+      const key = op.name && pendingVideos.get(op.name);
+      const uri = op.response?.generatedVideos?.[0]?.video?.uri;
+      if (op.done && key) {
+        pendingVideos.delete(op.name!);
+        const video = uri ? await blobToDataUrl(await inner.downloadVideo(uri)).catch(() => undefined) : undefined;
+        saveFixture({ kind: 'videos', key, response: plain(op), video, recordedAt: Date.now() });
+      }
+      return op;
+    },
+  };
+}
@@ -0,0 +1,32 @@
+/** * @license * SPDX-License-Identifier: Apache-2.0 */
+
+// Collects mic input into fixed-size frames at the context's native rate and
+// posts them to the main thread, which resamples them for the Live API.
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.frameSize = options.processorOptions?.frameSize || 2048;
+    this.frame = new Float32Array(this.frameSize);
+    this.offset = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0]?.[0];
+    if (!channel) return true;
+    let read = 0;
+    while (read < channel.length) {
+      const count = Math.min(channel.length - read, this.frameSize - this.offset);
+      this.frame.set(channel.subarray(read, read + count), this.offset);
+      this.offset += count;
+      read += count;
+      if (this.offset === this.frameSize) {
+        this.port.postMessage(this.frame, [this.frame.buffer]);
+        this.frame = new Float32Array(this.frameSize);
+        this.offset = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
@@ -0,0 +1,34 @@
+/** * @license * SPDX-License-Identifier: Apache-2.0 */
+import { describe, expect, it } from 'vitest';
+import { createConversationRecorder, mixTracks } from './recording';
+
+describe('createConversationRecorder', () => {
+  it('lays mic frames end to end at the model rate', () => {
+    const recorder = createConversationRecorder();
+    // 16 kHz frames of 160 samples are 240 samples each at 24 kHz
+    for (let i = 0; i < 10; i++) recorder.addMic(new Float32Array(160).fill(0.5));
+    const { mic, sampleRate } = recorder.tracks();
+    expect(sampleRate).toBe(24000);
+    // The resampler holds the last sample back until the next frame arrives
+    expect(mic.length).toBe(2399);
+    expect(mic.every(s => s === 0.5)).toBe(true);
+  });
+
+  it('places model audio at its time and cuts it at a barge-in', () => {
+    const recorder = createConversationRecorder();
+    recorder.addModel(new Float32Array(2400).fill(1), 0.1);
+    recorder.addModel(new Float32Array(2400).fill(1), 0.2);
+    recorder.cutModel(0.15);
+    const { model } = recorder.tracks();
+    expect(model.length).toBe(3600);
+    expect(model[2399]).toBe(0);
+    expect(model[2400]).toBe(1);
+    expect(model[3599]).toBe(1);
+  });
+});
+
+describe('mixTracks', () => {
+  it('sums tracks of different lengths and clips', () => {
+    expect(Array.from(mixTracks([Float32Array.from([0.5, 0.75]), Float32Array.from([0.25, 0.5, -0.5])]))).toEqual([0.75, 1, -0.5]);
+  });
+});
@@ -0,0 +1,73 @@
+/** * @license * SPDX-License-Identifier: Apache-2.0 */
+import { MIC_SAMPLE_RATE, MODEL_SAMPLE_RATE, createResampler } from './audio';
+
+// Records both sides of a live conversation onto one timeline. Model times are
+// in seconds from the start of the recording; mic audio is resampled to the
+// model's 24 kHz so the two tracks line up sample for sample.
+
+interface Segment {
+  // Offset in samples
+  start: number;
+  samples: Float32Array;
+}
+
+export interface ConversationTracks {
+  mic: Float32Array;
+  model: Float32Array;
+  sampleRate: number;
+}
+
+export function createConversationRecorder(sampleRate = MODEL_SAMPLE_RATE) {
+  const mic: Segment[] = [];
+  let model: Segment[] = [];
+  const resampleMic = createResampler(MIC_SAMPLE_RATE, sampleRate);
+  const toSamples = (seconds: number) => Math.max(0, Math.round(seconds * sampleRate));
+
+  // The mic streams without gaps from the start of the recording, so frames are
+  // laid end to end by sample count. Stamping them with the output context's
+  // clock would let the two devices' drift and callback jitter move them.
+  let micOffset = 0;
+  const addMic = (pcm: Float32Array) => {
+    const samples = resampleMic(pcm);
+    mic.push({ start: micOffset, samples });
+    micOffset += samples.length;
+  };
+
+  // Model audio arrives at 24 kHz, at the time it was scheduled to play
+  const addModel = (pcm: Float32Array, at: number) => {
+    model.push({ start: toSamples(at), samples: pcm });
+  };
+
+  // After a barge-in the rest of the reply was never heard, so drop it
+  const cutModel = (at: number) => {
+    const cut = toSamples(at);
+    model = model
+      .filter(s => s.start < cut)
+      .map(s => s.start + s.samples.length > cut ? { ...s, samples: s.samples.subarray(0, cut - s.start) } : s);
+  };
+
+  const isEmpty = () => !mic.length && !model.length;
+
+  const tracks = (): ConversationTracks => {
+    const end = (segments: Segment[]) => segments.reduce((n, s) => Math.max(n, s.start + s.samples.length), 0);
+    const length = Math.max(end(mic), end(model));
+    const render = (segments: Segment[]) => {
+      const out = new Float32Array(length);
+      segments.forEach(s => out.set(s.samples, s.start));
+      return out;
+    };
+    return { mic: render(mic), model: render(model), sampleRate };
+  };
+
+  return { addMic, addModel, cutModel, isEmpty, tracks };
+}
+
+// Sums the tracks, clipping at full scale
+export function mixTracks(tracks: Float32Array[]): Float32Array {
+  const out = new Float32Array(Math.max(0, ...tracks.map(t => t.length)));
+  for (const track of tracks) {
+    for (let i = 0; i < track.length; i++) out[i] += track[i];
+  }
+  for (let i = 0; i < out.length; i++) out[i] = Math.max(-1, Math.min(1, out[i]));
+  return out;
+}
@@ -0,0 +1,37 @@
+/** * @license * SPDX-License-Identifier: Apache-2.0 */
+import { describe, expect, it } from 'vitest';
+import { checkText } from './safety';
+
+const config = { blocklist: [], allowlist: [] };
+
+describe('checkText', () => {
+  it.each(['call me at 555-123-4567', 'my number is 555.123.4567', 'ring (555) 123-4567', 'text +44 207 946 0958', 'dial +15551234567'])(
+    'treats "%s" as personal info', text => {
+      expect(checkText(text, config)?.category).toBe('personal-info');
+    });
+
+  it.each(['draw 1234567890 stars', 'a robot named 2024-2025', 'the years 100 200-3000'])('lets "%s" through', text => {
+    expect(checkText(text, config)).toBeNull();
+  });
+
+  it.each(['Look at the shooting star!', 'Pull the weeds in the garden', 'A picture of a toy gun', 'a squirt gun fight'])(
+    'lets the everyday phrase "%s" through', text => {
+      expect(checkText(text, config)).toBeNull();
+    });
+
+  it('checks answers for the strongest terms only, and not for personal info', () => {
+    const answer = "Scooter's Ice Cream is at 1200 Main St, McKinney. Call (972) 555-0134.";
+    expect(checkText(answer, config)?.category).toBe('personal-info');
+    expect(checkText(answer, config, 'response')).toBeNull();
+    expect(checkText('Red blood cells carry oxygen.', config, 'response')).toBeNull();
+    expect(checkText('The story ends in a massacre.', config, 'response')).toEqual({ category: 'violence', term: 'massacre' });
+    expect(checkText('It has pickles.', { blocklist: ['pickles'], allowlist: [] }, 'response')).toEqual({ category: 'custom', term: 'pickles' });
+  });
+
+  it('still blocks emails, street addresses and listed words', () => {
+    expect(checkText('write to sadie@example.com', config)?.category).toBe('personal-info');
+    expect(checkText('I live at 12 Maple Street', config)?.category).toBe('personal-info');
+    expect(checkText('a dragon with a gun', config)).toEqual({ category: 'violence', term: 'gun' });
+    expect(checkText('a dragon with a water gun', config)).toBeNull();
+  });
+});
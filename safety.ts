@@ -0,0 +1,202 @@
+/** * @license * SPDX-License-Identifier: Apache-2.0 */
+import {
+  FinishReason,
+  GenerateContentResponse,
+  GenerateImagesResponse,
+  GenerateVideosResponse,
+  HarmBlockThreshold,
+  HarmCategory,
+  SafetyFilterLevel,
+  SafetySetting,
+} from '@google/genai';
+import { dbDelete, dbEntries, dbPut } from './db';
+
+// Every prompt goes through guardPrompt before it reaches a model, and every
+// response through the matching guard*Response before it reaches the screen.
+
+export type SafetyTool = 'sadie' | 'characters' | 'studio' | 'editor' | 'cinema' | 'lens' | 'scout';
+export type SafetyCategory = 'violence' | 'adult' | 'drugs' | 'self-harm' | 'hate' | 'personal-info' | 'custom' | 'model';
+
+export interface SafetyConfig {
+  // Extra words or phrases a parent wants blocked
+  blocklist: string[];
+  // Phrases that are fine even though they contain a blocked word, e.g. "water gun"
+  allowlist: string[];
+}
+
+export interface SafetyLogEntry {
+  id: string;
+  tool: SafetyTool;
+  stage: 'prompt' | 'response';
+  category: SafetyCategory;
+  term?: string;
+  text: string;
+  at: number;
+}
+
+const CONFIG_KEY = 'sadie-safety-config';
+
+const DEFAULT_BLOCKLIST: Partial<Record<SafetyCategory, string[]>> = {
+  'violence': ['kill', 'killing', 'murder', 'blood', 'bloody', 'gore', 'stab', 'shoot', 'shooting', 'torture', 'behead', 'massacre', 'gun', 'rifle', 'pistol', 'bomb', 'grenade', 'explosive'],
+  'adult': ['sex', 'sexy', 'nude', 'naked', 'porn', 'nsfw', 'lingerie'],
+  'drugs': ['drug', 'drugs', 'cocaine', 'heroin', 'weed', 'marijuana', 'beer', 'vodka', 'alcohol', 'drunk', 'cigarette', 'vape'],
+  'self-harm': ['suicide', 'self-harm', 'kill myself', 'hurt myself', 'cut myself'],
+  'hate': ['racist', 'nazi', 'slur'],
+};
+
+// Answers are already screened by the model's own filters and talk about real
+// places and things (a shop's phone number, blood cells), so they are checked
+// for the strongest terms only, and never for personal info
+const RESPONSE_BLOCKLIST: Partial<Record<SafetyCategory, string[]>> = {
+  'violence': ['murder', 'gore', 'torture', 'behead', 'massacre'],
+  'adult': ['sexy', 'nude', 'porn', 'nsfw'],
+  'drugs': ['cocaine', 'heroin'],
+  'self-harm': DEFAULT_BLOCKLIST['self-harm'],
+  'hate': DEFAULT_BLOCKLIST.hate,
+};
+
+const DEFAULT_ALLOWLIST = [
+  'water gun', 'nerf gun', 'glue gun', 'bubble gun', 'toy gun', 'squirt gun', 'water pistol', 'root beer', 'ginger beer',
+  'bath bomb', 'photo shoot', 'shooting star', 'blood orange', 'weeds',
+];
+
+const PERSONAL_INFO_PATTERNS = [
+  /[\w.+-]+@[\w-]+\.[\w.]+/,
+  // Phone numbers need the punctuation people write them with, so a long
+  // number on its own (a score, a year range) isn't mistaken for one
+  /\b\d{3}([-.\s])\d{3}\1\d{4}\b/,
+  /\(\d{3}\)\s?\d{3}[-.\s]?\d{4}\b/,
+  /\+\d{1,3}[-.\s]?\d{3}[-.\s]?\d{3}[-.\s]?\d{4}\b/,
+  /\b\d+\s+\w+\s+(street|st|avenue|ave|road|rd|lane|ln|drive|dr|court|ct|boulevard|blvd)\b/i,
+];
+
+const FRIENDLY_MESSAGES: Record<SafetyCategory, string> = {
+  'violence': 'Sadie only makes things that are kind and safe, so fighting and weapons are off the table. How about a superhero rescue or a treasure hunt instead?',
+  'adult': "That's not something Sadie can make. Let's try something fun like a dance party or a space adventure!",
+  'drugs': 'Sadie keeps things healthy! How about a smoothie stand or a lemonade party instead?',
+  'self-harm': "That sounds really important. Please talk to a grown-up you trust about it. They care about you and can help. 💜",
+  'hate': "Sadie believes everyone deserves kindness. Let's make something that brings people together!",
+  'personal-info': "Let's keep personal stuff like addresses, phone numbers and emails private. Try asking without them!",
+  'custom': "A grown-up asked Sadie to skip that one. Let's pick a different idea!",
+  'model': 'The AI thought that might not be okay for kids, so it stopped. Try changing your idea a little!',
+};
+
+// Applied to every generateContent call
+export const CONTENT_SAFETY_SETTINGS: SafetySetting[] = [
+  HarmCategory.HARM_CATEGORY_HARASSMENT,
+  HarmCategory.HARM_CATEGORY_HATE_SPEECH,
+  HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT,
+  HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT,
+].map(category => ({ category, threshold: HarmBlockThreshold.BLOCK_LOW_AND_ABOVE }));
+
+// Spread into every generateImages config
+export const IMAGE_SAFETY_CONFIG = {
+  safetyFilterLevel: SafetyFilterLevel.BLOCK_LOW_AND_ABOVE,
+  includeRaiReason: true,
+};
+
+// Veo has no filter level setting, so steer it away from unsafe content instead
+export const VIDEO_NEGATIVE_PROMPT = 'violence, weapons, blood, gore, scary imagery, nudity, smoking, alcohol';
+
+export class SafetyBlockError extends Error {
+  constructor(public category: SafetyCategory, public friendlyMessage = FRIENDLY_MESSAGES[category]) {
+    super(`Blocked by safety check: ${category}`);
+    this.name = 'SafetyBlockError';
+  }
+}
+
+// Kid-facing text for a blocked request, or null when the error is something else
+export function safetyMessage(e: unknown): string | null {
+  return e instanceof SafetyBlockError ? e.friendlyMessage : null;
+}
+
+export function getSafetyConfig(): SafetyConfig {
+  try {
+    const saved = JSON.parse(localStorage.getItem(CONFIG_KEY) || '{}');
+    return { blocklist: saved.blocklist || [], allowlist: saved.allowlist || [] };
+  } catch {
+    return { blocklist: [], allowlist: [] };
+  }
+}
+
+export function setSafetyConfig(config: SafetyConfig) {
+  const clean = (list: string[]) => list.map(t => t.trim().toLowerCase()).filter(Boolean);
+  localStorage.setItem(CONFIG_KEY, JSON.stringify({ blocklist: clean(config.blocklist), allowlist: clean(config.allowlist) }));
+}
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+function findTerm(text: string, terms: string[]) {
+  return terms.find(term => new RegExp(`\\b${escapeRegExp(term)}(s|es)?\\b`, 'i').test(text));
+}
+
+export function checkText(
+  text: string,
+  config = getSafetyConfig(),
+  stage: SafetyLogEntry['stage'] = 'prompt'
+): { category: SafetyCategory; term?: string } | null {
+  let normalized = ` ${text.toLowerCase()} `;
+  for (const phrase of [...DEFAULT_ALLOWLIST, ...config.allowlist]) {
+    normalized = normalized.split(phrase).join(' ');
+  }
+  if (stage === 'prompt' && PERSONAL_INFO_PATTERNS.some(p => p.test(normalized))) return { category: 'personal-info' };
+  const blocklist = stage === 'prompt' ? DEFAULT_BLOCKLIST : RESPONSE_BLOCKLIST;
+  for (const [category, terms] of Object.entries(blocklist) as [SafetyCategory, string[]][]) {
+    const term = findTerm(normalized, terms);
+    if (term) return { category, term };
+  }
+  const term = findTerm(normalized, config.blocklist);
+  return term ? { category: 'custom', term } : null;
+}
+
+async function block(tool: SafetyTool, stage: SafetyLogEntry['stage'], category: SafetyCategory, text: string, term?: string): Promise<never> {
+  const at = Date.now();
+  const entry: SafetyLogEntry = { id: `${at}-${Math.random().toString(36).slice(2, 6)}`, tool, stage, category, term, text: text.slice(0, 500), at };
+  await dbPut('safety-log', entry.id, entry).catch(e => console.warn('Could not write safety log', e));
+  throw new SafetyBlockError(category);
+}
+
+export async function guardPrompt(tool: SafetyTool, text: string, config = getSafetyConfig()) {
+  const hit = checkText(text, config);
+  if (hit) await block(tool, 'prompt', hit.category, text, hit.term);
+}
+
+export async function guardText(tool: SafetyTool, text: string) {
+  const hit = checkText(text, getSafetyConfig(), 'response');
+  if (hit) await block(tool, 'response', hit.category, text, hit.term);
+}
+
+const BLOCKING_FINISH_REASONS = [FinishReason.SAFETY, FinishReason.BLOCKLIST, FinishReason.PROHIBITED_CONTENT, FinishReason.SPII, FinishReason.IMAGE_SAFETY];
+
+export async function guardContentResponse(tool: SafetyTool, prompt: string, resp: GenerateContentResponse) {
+  const finishReason = resp.candidates?.[0]?.finishReason;
+  if (resp.promptFeedback?.blockReason || (finishReason && BLOCKING_FINISH_REASONS.includes(finishReason))) {
+    await block(tool, 'response', 'model', prompt, resp.promptFeedback?.blockReason || finishReason);
+  }
+  const text = resp.candidates?.[0]?.content?.parts?.map(p => p.text || '').join('') || '';
+  if (text) await guardText(tool, text);
+}
+
+export async function guardImagesResponse(tool: SafetyTool, prompt: string, resp: GenerateImagesResponse) {
+  const images = resp.generatedImages || [];
+  if (images.length && images.every(img => img.raiFilteredReason && !img.image?.imageBytes)) {
+    await block(tool, 'response', 'model', prompt, images[0].raiFilteredReason);
+  }
+}
+
+export async function guardVideosResponse(tool: SafetyTool, prompt: string, resp?: GenerateVideosResponse) {
+  if (resp?.raiMediaFilteredCount && !resp.generatedVideos?.length) {
+    await block(tool, 'response', 'model', prompt, resp.raiMediaFilteredReasons?.[0]);
+  }
+}
+
+// Newest first
+export async function listSafetyLog(): Promise<SafetyLogEntry[]> {
+  const entries = await dbEntries<SafetyLogEntry>('safety-log');
+  return entries.map(([, e]) => e).sort((a, b) => b.at - a.at);
+}
+
+export async function clearSafetyLog() {
+  const entries = await dbEntries<SafetyLogEntry>('safety-log');
+  await Promise.all(entries.map(([k]) => dbDelete('safety-log', k)));
+}
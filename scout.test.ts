@@ -0,0 +1,43 @@
+/** * @license * SPDX-License-Identifier: Apache-2.0 */
+import { describe, expect, it } from 'vitest';
+import { SearchSource, addCitations, renderMarkdown } from './scout';
+
+const source = (title: string, uri = 'https://example.com/'): SearchSource => ({ title, uri, kind: 'web' });
+
+describe('addCitations', () => {
+  it('places markers after each supported segment, counting UTF-8 bytes', () => {
+    const text = 'Café is open. Tea too.';
+    const end = new TextEncoder().encode('Café is open.').length;
+    const supports = [{ segment: { endIndex: end }, groundingChunkIndices: [1, 0] }];
+    expect(addCitations(text, supports)).toBe('Café is open.[^1][^2] Tea too.');
+  });
+});
+
+describe('renderMarkdown', () => {
+  it('renders headings, lists and inline formatting', () => {
+    expect(renderMarkdown('# Hi\n- **bold** and *it*\n- `a*b*`')).toBe(
+      '<h3>Hi</h3><ul><li><strong>bold</strong> and <em>it</em></li><li><code>a*b*</code></li></ul>');
+  });
+
+  it('escapes HTML and only links web addresses', () => {
+    expect(renderMarkdown('<img src=x onerror=alert(1)> [a](javascript:alert(1))')).toBe(
+      '<p>&#60;img src=x onerror=alert(1)&#62; [a](javascript:alert(1))</p>');
+  });
+
+  it('turns citations into links to their sources', () => {
+    expect(renderMarkdown('Fact.[^1][^3]', [source('Example')])).toBe(
+      '<p>Fact.<a href="https://example.com/" target="_blank" rel="noopener noreferrer" class="citation" title="Example">1</a>[^3]</p>');
+  });
+
+  it('never formats inside a source title', () => {
+    const html = renderMarkdown('Fact.[^1]', [source('[x](https://a/x/onmouseover=alert`1`//) **b**')]);
+    expect(html).toBe('<p>Fact.<a href="https://example.com/" target="_blank" rel="noopener noreferrer" class="citation" '
+      + 'title="[x](https://a/x/onmouseover=alert`1`//) **b**">1</a></p>');
+  });
+
+  it('keeps citations out of link addresses', () => {
+    const html = renderMarkdown('[see](https://a/[^1]) [^1]', [source('T', 'https://b/')]);
+    expect(html).not.toContain('href="https://a/');
+    expect(html.match(/<a /g)).toHaveLength(2);
+  });
+});
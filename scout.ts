@@ -0,0 +1,157 @@
+/** * @license * SPDX-License-Identifier: Apache-2.0 */
+import { GroundingSupport } from '@google/genai';
+import { asObject, asString } from './json';
+
+// Scout answers: citation markers from grounding metadata, a small Markdown
+// renderer that escapes everything it doesn't understand, and search history.
+
+export interface SearchSource {
+  title: string;
+  uri: string;
+  kind: 'web' | 'maps';
+}
+
+export function chunkSource(chunk: unknown): SearchSource | null {
+  const web = asObject(asObject(chunk).web), maps = asObject(asObject(chunk).maps);
+  if (asString(web.uri)) return { title: asString(web.title) || asString(web.uri), uri: asString(web.uri), kind: 'web' };
+  if (asString(maps.uri)) return { title: asString(maps.title) || 'Location Result', uri: asString(maps.uri), kind: 'maps' };
+  return null;
+}
+
+// Appends [^n] after each supported segment, n being the 1-based chunk number.
+// Segment offsets count UTF-8 bytes, not UTF-16 characters, so work in bytes.
+export function addCitations(text: string, supports: GroundingSupport[]): string {
+  const bytes = new TextEncoder().encode(text);
+  const markers = new Map<number, Set<number>>();
+  for (const support of supports) {
+    const end = support.segment?.endIndex;
+    if (end === undefined || end > bytes.length || !support.groundingChunkIndices?.length) continue;
+    const set = markers.get(end) || new Set<number>();
+    support.groundingChunkIndices.forEach(i => set.add(i + 1));
+    markers.set(end, set);
+  }
+  if (!markers.size) return text;
+
+  const decoder = new TextDecoder();
+  let out = '';
+  let last = 0;
+  for (const end of [...markers.keys()].sort((a, b) => a - b)) {
+    out += decoder.decode(bytes.subarray(last, end));
+    out += [...markers.get(end)!].sort((a, b) => a - b).map(n => `[^${n}]`).join('');
+    last = end;
+  }
+  return out + decoder.decode(bytes.subarray(last));
+}
+
+const escapeHtml = (s: string) => s.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
+function renderInline(text: string, sources: (SearchSource | null)[]): string {
+  // Citations become placeholders until the formatting is done, so the
+  // patterns below never run over a source's title or link
+  const cite = (n: string) => {
+    const source = sources[Number(n) - 1];
+    return source
+      ? `<a href="${escapeHtml(source.uri)}" target="_blank" rel="noopener noreferrer" class="citation" title="${escapeHtml(source.title)}">${n}</a>`
+      : `[^${n}]`;
+  };
+  // Code spans first so nothing inside them is formatted
+  return escapeHtml(text.replace(/\0/g, '')).split(/(`[^`]+`)/).map(part => {
+    if (/^`[^`]+`$/.test(part)) return `<code>${part.slice(1, -1)}</code>`;
+    return part
+      .replace(/\[\^(\d+)\]/g, '\0$1\0')
+      // Only web links; anything else (javascript:, data:...) stays as text.
+      // A citation can't sit inside a link's address.
+      .replace(/\[([^\]]+)\]\((https?:\/\/[^\s)\0]+)\)/g, '<a href="$2" target="_blank" rel="noopener noreferrer">$1</a>')
+      .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+      .replace(/(^|[^*])\*([^*\s][^*]*)\*/g, '$1<em>$2</em>')
+      .replace(/\0(\d+)\0/g, (_, n) => cite(n));
+  }).join('');
+}
+
+// Headings, lists, paragraphs and inline formatting. Input is escaped before
+// any tags are added, so the output is safe for v-html. Sources are indexed
+// like the grounding chunks; citations of a chunk without a link stay as text.
+export function renderMarkdown(markdown: string, sources: (SearchSource | null)[] = []): string {
+  const html: string[] = [];
+  let list: 'ul' | 'ol' | null = null;
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length) html.push(`<p>${paragraph.map(l => renderInline(l, sources)).join('<br>')}</p>`);
+    paragraph = [];
+  };
+  const closeList = () => {
+    if (list) html.push(`</${list}>`);
+    list = null;
+  };
+
+  for (const line of markdown.split('\n')) {
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    const item = line.match(/^\s*(?:([-*+])|\d+[.)])\s+(.*)$/);
+    if (heading) {
+      flushParagraph();
+      closeList();
+      const level = heading[1].length + 2;
+      html.push(`<h${level}>${renderInline(heading[2], sources)}</h${level}>`);
+    } else if (item) {
+      flushParagraph();
+      const type = item[1] ? 'ul' : 'ol';
+      if (list !== type) {
+        closeList();
+        html.push(`<${type}>`);
+        list = type;
+      }
+      html.push(`<li>${renderInline(item[2], sources)}</li>`);
+    } else if (!line.trim()) {
+      flushParagraph();
+      closeList();
+    } else {
+      closeList();
+      paragraph.push(line);
+    }
+  }
+  flushParagraph();
+  closeList();
+  return html.join('');
+}
+
+export interface SearchHistoryEntry {
+  id: string;
+  query: string;
+  useMaps: boolean;
+  createdAt: number;
+}
+
+const HISTORY_KEY = 'sadie-search-history';
+const HISTORY_LIMIT = 50;
+
+export function loadSearchHistory(): SearchHistoryEntry[] {
+  try {
+    return JSON.parse(localStorage.getItem(HISTORY_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+function saveSearchHistory(entries: SearchHistoryEntry[]) {
+  localStorage.setItem(HISTORY_KEY, JSON.stringify(entries));
+}
+
+// Newest first; searching the same thing again moves it back to the top
+export function addSearchHistory(query: string, useMaps: boolean, now = Date.now()): SearchHistoryEntry[] {
+  const rest = loadSearchHistory().filter(e => e.query !== query || e.useMaps !== useMaps);
+  const entries = [{ id: `search-${now.toString(36)}`, query, useMaps, createdAt: now }, ...rest].slice(0, HISTORY_LIMIT);
+  saveSearchHistory(entries);
+  return entries;
+}
+
+export function deleteSearchHistory(id: string): SearchHistoryEntry[] {
+  const entries = loadSearchHistory().filter(e => e.id !== id);
+  saveSearchHistory(entries);
+  return entries;
+}
+
+export function clearSearchHistory(): SearchHistoryEntry[] {
+  localStorage.removeItem(HISTORY_KEY);
+  return [];
+}
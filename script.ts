@@ -0,0 +1,62 @@
+/** * @license * SPDX-License-Identifier: Apache-2.0 */
+import { asArray, asObject, asString } from './json';
+
+// Movie scripts written by the text model and edited as a storyboard
+
+export const SCENE_DURATIONS = [4, 6, 8];
+
+export interface Scene {
+  id: string;
+  // What Veo should show
+  visualPrompt: string;
+  // Read aloud while the clip plays
+  narration: string;
+  durationSeconds: number;
+  // Character ids that appear in the scene
+  characters: string[];
+}
+
+export interface MovieScript {
+  title: string;
+  characters: string[];
+  scenes: Scene[];
+}
+
+let nextId = 0;
+export const sceneId = () => `scene-${Date.now().toString(36)}-${nextId++}`;
+
+// Veo only renders a few clip lengths
+export function nearestDuration(seconds: number) {
+  return SCENE_DURATIONS.reduce((best, d) => Math.abs(d - seconds) < Math.abs(best - seconds) ? d : best);
+}
+
+export function emptyScene(): Scene {
+  return { id: sceneId(), visualPrompt: '', narration: '', durationSeconds: SCENE_DURATIONS[1], characters: [] };
+}
+
+// The schema keeps the model close, but anything it gets wrong is fixed here:
+// unknown characters are dropped and durations snap to ones Veo supports.
+export function normalizeScript(raw: unknown, characterIds: string[]): MovieScript {
+  const known = (ids: unknown) => asArray(ids).filter((id): id is string => typeof id === 'string' && characterIds.includes(id));
+  const script = asObject(raw);
+  const scenes = asArray(script.scenes).map((value): Scene => {
+    const s = asObject(value);
+    return {
+      id: sceneId(),
+      visualPrompt: asString(s.visualPrompt),
+      narration: asString(s.narration),
+      durationSeconds: nearestDuration(Number(s.durationSeconds) || SCENE_DURATIONS[1]),
+      characters: known(s.characters),
+    };
+  }).filter(s => s.visualPrompt);
+  const characters = known(script.characters);
+  return {
+    title: asString(script.title) || 'My Movie',
+    characters: characters.length ? characters : [...new Set(scenes.flatMap(s => s.characters))],
+    scenes,
+  };
+}
+
+export function scriptDuration(script: MovieScript) {
+  return script.scenes.reduce((total, s) => total + s.durationSeconds, 0);
+}
@@ -0,0 +1,239 @@
+/** * @license * SPDX-License-Identifier: Apache-2.0 */
+import { GoogleGenAI, LiveConnectParameters, Session } from '@google/genai';
+import { IncomingMessage, ServerResponse, createServer } from 'http';
+import { WebSocketServer } from 'ws';
+
+// Keeps GEMINI_API_KEY on the server. The browser calls these endpoints (via
+// the Vite dev proxy) and never sees the key. Run with `npm run server`.
+//
+//   POST /api/images           generateImages
+//   POST /api/edit             generateContent with an image model
+//   POST /api/text             generateContent (vision, structured output...)
+//   POST /api/search           generateContent with search or maps grounding
+//   POST /api/videos           generateVideos
+//   POST /api/videos/operation poll a video operation
+//   GET  /api/videos/download  stream a finished video
+//   WS   /api/live             relay to a Live API session
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // Fall back to the real environment
+}
+
+const PORT = Number(process.env.PORT) || 8787;
+const HOST = '127.0.0.1';
+const API_KEY = process.env.GEMINI_API_KEY;
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+const RATE_WINDOW = 60_000;
+
+// Requests per client per minute
+const RATE_LIMITS = {
+  images: 10,
+  edit: 10,
+  text: 20,
+  search: 20,
+  videos: 2,
+  operation: 30,
+  download: 10,
+  live: 6,
+};
+
+type Endpoint = keyof typeof RATE_LIMITS;
+
+// Each endpoint only forwards the model family it is meant for
+const MODEL_PATTERNS: Partial<Record<Endpoint, RegExp>> = {
+  images: /^imagen-[\w.-]+$/,
+  edit: /^gemini-[\w.-]*image[\w.-]*$/,
+  text: /^gemini-[\w.-]+$/,
+  search: /^gemini-[\w.-]+$/,
+  videos: /^veo-[\w.-]+$/,
+  live: /^gemini-[\w.-]+$/,
+};
+
+// Video links from the API need the key appended, so only ever add it to these hosts
+const DOWNLOAD_HOSTS = ['generativelanguage.googleapis.com'];
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const hits = new Map<string, { count: number; windowStart: number }>();
+
+function checkRateLimit(endpoint: Endpoint, client: string) {
+  const key = `${endpoint}|${client}`;
+  const now = Date.now();
+  const entry = hits.get(key);
+  if (!entry || now - entry.windowStart >= RATE_WINDOW) {
+    hits.set(key, { count: 1, windowStart: now });
+    return;
+  }
+  if (++entry.count > RATE_LIMITS[endpoint]) {
+    throw new HttpError(429, `RESOURCE_EXHAUSTED: rate limit for ${endpoint} is ${RATE_LIMITS[endpoint]} per minute`);
+  }
+}
+
+function checkModel(endpoint: Endpoint, model: unknown) {
+  const pattern = MODEL_PATTERNS[endpoint];
+  if (pattern && (typeof model !== 'string' || !pattern.test(model))) {
+    throw new HttpError(400, `Model ${model} is not allowed for ${endpoint}`);
+  }
+}
+
+async function readJson(req: IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request too large');
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Body must be JSON');
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+// SDK errors read "got status: 429 Too Many Requests. {...}"; pass the status on
+function errorStatus(e: unknown) {
+  if (e instanceof HttpError) return e.status;
+  const status = Number((e instanceof Error ? e.message : '').match(/got status: (\d{3})/)?.[1]);
+  return status || 500;
+}
+
+// The server only listens on loopback, so every connection comes from this
+// machine, usually the Vite proxy. The proxy appends the browser's address to
+// X-Forwarded-For; anything before it was sent by the browser and can't be trusted.
+const clientId = (req: IncomingMessage) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  const last = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded)?.split(',').pop()?.trim();
+  return last || req.socket.remoteAddress || 'unknown';
+};
+
+const ai = new GoogleGenAI({ apiKey: API_KEY });
+
+const POST_ROUTES: Record<string, [Endpoint, (body: any) => Promise<unknown>]> = {
+  '/api/images': ['images', body => ai.models.generateImages(body)],
+  '/api/edit': ['edit', body => ai.models.generateContent(body)],
+  '/api/text': ['text', body => ai.models.generateContent(body)],
+  '/api/search': ['search', body => ai.models.generateContent(body)],
+  '/api/videos': ['videos', body => ai.models.generateVideos(body)],
+  '/api/videos/operation': ['operation', body => ai.operations.getVideosOperation({ operation: body.operation })],
+};
+
+async function downloadVideo(url: URL, res: ServerResponse) {
+  const uri = url.searchParams.get('uri') || '';
+  let target: URL;
+  try {
+    target = new URL(uri);
+  } catch {
+    throw new HttpError(400, 'Bad video uri');
+  }
+  if (target.protocol !== 'https:' || !DOWNLOAD_HOSTS.includes(target.hostname)) {
+    throw new HttpError(400, 'Video uri is not from the Gemini API');
+  }
+  target.searchParams.set('key', API_KEY || '');
+  const upstream = await fetch(target);
+  if (!upstream.ok || !upstream.body) throw new HttpError(upstream.status, `Video download failed: ${upstream.statusText}`);
+  res.writeHead(200, { 'Content-Type': upstream.headers.get('content-type') || 'video/mp4' });
+  const reader = upstream.body.getReader();
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) res.write(chunk.value);
+  res.end();
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  try {
+    if (!API_KEY) throw new HttpError(401, 'GEMINI_API_KEY is not set on the server');
+
+    if (req.method === 'GET' && url.pathname === '/api/videos/download') {
+      checkRateLimit('download', clientId(req));
+      return await downloadVideo(url, res);
+    }
+
+    const route = POST_ROUTES[url.pathname];
+    if (req.method !== 'POST' || !route) throw new HttpError(404, 'Not found');
+    const [endpoint, run] = route;
+    checkRateLimit(endpoint, clientId(req));
+    const body = await readJson(req);
+    if (endpoint !== 'operation') checkModel(endpoint, body.model);
+    sendJson(res, 200, await run(body));
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    if (res.headersSent) return res.destroy();
+    sendJson(res, errorStatus(e), { error: message });
+  }
+});
+
+// --- Live relay ---
+// The first message from the browser is { setup: { model, config } }. After
+// that, { clientContent | realtimeInput | toolResponse: params } messages are
+// passed to the session and every server message is passed back as JSON.
+
+const wss = new WebSocketServer({ server, path: '/api/live' });
+
+wss.on('connection', (socket, req) => {
+  // Messages can arrive while connect() is still resolving, so they wait on this
+  let session: Promise<Session> | null = null;
+  const fail = (code: number, reason: string) => socket.close(code, reason.slice(0, 120));
+
+  try {
+    if (!API_KEY) throw new HttpError(401, 'GEMINI_API_KEY is not set on the server');
+    checkRateLimit('live', clientId(req));
+  } catch (e) {
+    return fail(e instanceof HttpError && e.status === 429 ? 4429 : 4401, (e as Error).message);
+  }
+
+  socket.on('message', async (raw) => {
+    let msg: any;
+    try {
+      msg = JSON.parse(raw.toString());
+    } catch {
+      return fail(4400, 'Messages must be JSON');
+    }
+
+    if (msg.setup) {
+      if (session) return;
+      const setup: Omit<LiveConnectParameters, 'callbacks'> = msg.setup;
+      try {
+        checkModel('live', setup.model);
+        session = ai.live.connect({
+          ...setup,
+          callbacks: {
+            onopen: () => socket.send(JSON.stringify({ open: true })),
+            onmessage: (m) => socket.send(JSON.stringify(m)),
+            onerror: (e) => fail(4500, e.message || 'Live session error'),
+            onclose: (e) => fail(1000, e.reason || ''),
+          },
+        });
+        await session;
+      } catch (e) {
+        fail(4000 + (errorStatus(e) % 1000), e instanceof Error ? e.message : String(e));
+      }
+      return;
+    }
+
+    if (!session) return fail(4400, 'Send setup first');
+    const live = await session.catch(() => null);
+    if (!live) return;
+    if (msg.clientContent) live.sendClientContent(msg.clientContent);
+    else if (msg.realtimeInput) live.sendRealtimeInput(msg.realtimeInput);
+    else if (msg.toolResponse) live.sendToolResponse(msg.toolResponse);
+  });
+
+  socket.on('close', () => session?.then(live => live.close(), () => {}));
+});
+
+// Loopback only: the key is spent on behalf of whoever can reach this port
+server.listen(PORT, HOST, () => {
+  console.log(`Sadiestar API server on http://${HOST}:${PORT}`);
+  if (!API_KEY) console.warn('GEMINI_API_KEY is not set; every request will fail until it is.');
+});
@@ -0,0 +1,55 @@
+/** * @license * SPDX-License-Identifier: Apache-2.0 */
+
+export interface SilenceOptions {
+  // Mic volume (0..1) below which the user counts as quiet
+  threshold: number;
+  // Quiet time before mic frames stop streaming
+  quietDuration: number;
+  // Quiet time before Sadie checks in with the user
+  extendedQuietDuration: number;
+  // Quiet time after the check-in before the session closes
+  closeDuration: number;
+}
+
+export type SilenceAction = 'none' | 'pause' | 'resume' | 'check-in' | 'close';
+
+// Turns a stream of volume readings into session actions. Time while the
+// model is speaking never counts as quiet.
+export function createSilenceManager(options: SilenceOptions, now = Date.now()) {
+  let lastActivity = now;
+  let paused = false;
+  let checkedIn = false;
+
+  const update = (volume: number, modelSpeaking: boolean, at = Date.now()): SilenceAction => {
+    if (volume > options.threshold) {
+      lastActivity = at;
+      checkedIn = false;
+      if (paused) {
+        paused = false;
+        return 'resume';
+      }
+      return 'none';
+    }
+    if (modelSpeaking) {
+      lastActivity = at;
+      return 'none';
+    }
+
+    const quiet = at - lastActivity;
+    if (checkedIn) {
+      return quiet >= options.closeDuration ? 'close' : 'none';
+    }
+    if (quiet >= options.extendedQuietDuration) {
+      checkedIn = true;
+      lastActivity = at;
+      return 'check-in';
+    }
+    if (!paused && quiet >= options.quietDuration) {
+      paused = true;
+      return 'pause';
+    }
+    return 'none';
+  };
+
+  return { update, isPaused: () => paused };
+}
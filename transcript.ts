@@ -0,0 +1,40 @@
+/** * @license * SPDX-License-Identifier: Apache-2.0 */
+
+export type TranscriptRole = 'user' | 'model';
+
+export interface TranscriptTurn {
+  role: TranscriptRole;
+  text: string;
+  startedAt: number;
+  complete: boolean;
+}
+
+// Live API transcriptions arrive as small fragments. Fragments from the same
+// speaker are merged into the open turn; a new turn starts when the speaker
+// changes or the previous turn was marked complete.
+export function appendTranscript(turns: TranscriptTurn[], role: TranscriptRole, text: string, now = Date.now()): TranscriptTurn[] {
+  if (!text) return turns;
+  const last = turns[turns.length - 1];
+  if (last && last.role === role && !last.complete) {
+    return [...turns.slice(0, -1), { ...last, text: last.text + text }];
+  }
+  return [...turns, { role, text: text.trimStart(), startedAt: now, complete: false }];
+}
+
+export function completeTranscript(turns: TranscriptTurn[]): TranscriptTurn[] {
+  return turns.map(t => t.complete ? t : { ...t, complete: true });
+}
+
+export function transcriptToText(turns: TranscriptTurn[], names: Record<TranscriptRole, string>): string {
+  return turns
+    .map(t => `[${new Date(t.startedAt).toLocaleTimeString()}] ${names[t.role]}: ${t.text.trim()}`)
+    .join('\n');
+}
+
+export function transcriptToJson(turns: TranscriptTurn[]): string {
+  return JSON.stringify(
+    turns.map(t => ({ role: t.role, text: t.text.trim(), startedAt: new Date(t.startedAt).toISOString() })),
+    null,
+    2
+  );
+}
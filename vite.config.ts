@@ -8,11 +8,14 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The API key stays in server.ts; the browser only talks to /api
+        proxy: {
+          '/api': { target: 'http://127.0.0.1:8787', ws: true, xfwd: true },
+        },
       },
       plugins: [],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.HAS_API_KEY': JSON.stringify(Boolean(env.GEMINI_API_KEY))
       },
       resolve: {
         alias: {
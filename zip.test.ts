@@ -0,0 +1,65 @@
+/** * @license * SPDX-License-Identifier: Apache-2.0 */
+import { deflateRawSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { crc32, createZip, readZip } from './zip';
+
+// createZip only stores, so deflated entries, like other tools write, are built here
+function deflatedZip(name: string, data: Uint8Array): Blob {
+  const nameBytes = new TextEncoder().encode(name);
+  const packed = deflateRawSync(data);
+  const local = new DataView(new ArrayBuffer(30));
+  local.setUint32(0, 0x04034b50, true);
+  local.setUint16(8, 8, true);
+  local.setUint32(14, crc32(data), true);
+  local.setUint32(18, packed.length, true);
+  local.setUint32(22, data.length, true);
+  local.setUint16(26, nameBytes.length, true);
+  const central = new DataView(new ArrayBuffer(46));
+  central.setUint32(0, 0x02014b50, true);
+  central.setUint16(10, 8, true);
+  central.setUint32(16, crc32(data), true);
+  central.setUint32(20, packed.length, true);
+  central.setUint32(24, data.length, true);
+  central.setUint16(28, nameBytes.length, true);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, 1, true);
+  end.setUint16(10, 1, true);
+  end.setUint32(12, 46 + nameBytes.length, true);
+  end.setUint32(16, 30 + nameBytes.length + packed.length, true);
+  return new Blob([local.buffer, nameBytes, packed, central.buffer, nameBytes, end.buffer]);
+}
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('readZip', () => {
+  it('reads back what createZip wrote', async () => {
+    const image = Uint8Array.from({ length: 300 }, (_, i) => i % 256);
+    const entries = await readZip(createZip([{ name: 'agent.json', data: '{"a":1}' }, { name: 'avatars/ünï.png', data: image }]));
+    expect(entries.map(e => e.name)).toEqual(['agent.json', 'avatars/ünï.png']);
+    expect(new TextDecoder().decode(await entries[0].read(100))).toBe('{"a":1}');
+    expect(await entries[1].read(300)).toEqual(image);
+  });
+
+  it('inflates deflated entries', async () => {
+    const text = 'hello '.repeat(1000);
+    const [entry] = await readZip(deflatedZip('big.txt', new TextEncoder().encode(text)));
+    expect(new TextDecoder().decode(await entry.read(10_000))).toBe(text);
+  });
+
+  it('stops at the size limit, stored or deflated', async () => {
+    const [stored] = await readZip(createZip([{ name: 'a.bin', data: new Uint8Array(1000) }]));
+    await expect(stored.read(999)).rejects.toThrow('a.bin is too big');
+    // 10 MB of zeros packs into about 10 KB
+    const [bomb] = await readZip(deflatedZip('bomb.bin', new Uint8Array(10_000_000)));
+    await expect(bomb.read(100_000)).rejects.toThrow('bomb.bin is too big');
+  });
+
+  it('rejects files that are not zips', async () => {
+    await expect(readZip(new Blob(['just some text']))).rejects.toThrow('Not a zip file');
+  });
+});